@@ -1,19 +1,34 @@
 import { ethers } from 'ethers';
+import { SupplyRate, WAD, aaveSupplyRate, compoundSupplyRate } from '../src/rates';
+import { HysteresisDecision } from '../src/hysteresis';
+import { compareYields } from '../src/yieldMonitor';
+import { findCometAddress } from '../src/contracts/compound';
+import { getAssetAddresses, getAssetLabel } from '../src/assets';
+import { withApiGuard } from '../src/apiGuard';
+import { incrementMetric, monitorFallbacks } from '../src/metrics';
+import { OptimizerConfig, connect } from '../src/config';
 
 /**
  * TriggerX Yield Monitor API Endpoint
  * 
  * This API endpoint monitors yield differences between Aave and Compound
- * Returns the yield difference for TriggerX to use as a condition trigger
+ * Returns the gain available by moving the Safe's funds, for TriggerX to use as a condition trigger
+ * 
+ * The Safe is the configured one, or `?safe=0x...` for one listed in monitor.safes. Every managed asset with a market on both
+ * protocols is decided on its own by compareYields, from the Safe's real position: an asset
+ * already in the better venue (or held back by hysteresis or costs) gains 0. The value is the
+ * largest gain of any asset, so one job covers all of them
+ * 
+ * All rates are read at the same block. A failed rate or balance read, a stale block or Aave reserve,
+ * or a rate outside sane bounds answers 503 with `valid: false` instead of a value,
+ * so the job never acts on bad data. Valid responses are cached for monitor.cacheTtlSeconds
+ * 
+ * Requests need API_AUTH_TOKEN or an API_HMAC_SECRET signature when either is set,
+ * and are rate limited per client IP (see src/apiGuard.ts)
  * 
  * Deploy this to Vercel, Railway, or any serverless platform
  */
 
-// Protocol addresses for Arbitrum
-const AAVE_DATA_PROVIDER = process.env.AAVE_DATA_PROVIDER_ADDRESS || '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654';
-const COMPOUND_COMET = process.env.COMPOUND_COMET_ADDRESS || '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf';
-const USDC_ADDRESS = process.env.TOKEN_ADDRESS || '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
-
 // ABIs
 const AAVE_DATA_PROVIDER_ABI = [
   'function getReserveData(address asset) view returns (uint256 unbacked, uint256 accruedToTreasuryScaled, uint256 totalAToken, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)'
@@ -24,124 +39,314 @@ const COMPOUND_COMET_ABI = [
   'function getUtilization() view returns (uint256)'
 ];
 
+interface AssetYield {
+  asset: string; // token symbol
+  tokenAddress: string;
+  aaveAPY: number;
+  aaveAPR: number;
+  compoundAPY: number;
+  compoundAPR: number;
+  difference: number; // best APY minus the lowest APY of any venue holding the Safe's funds
+  gain: number; // difference when compareYields would move funds, else 0
+  betterProtocol: string;
+  currentProtocols: string[]; // venues holding the Safe's funds, largest first
+  shouldMove: boolean;
+  reason?: string; // why a move is held back (costs or hysteresis)
+  hysteresis?: HysteresisDecision;
+}
+
 interface YieldData {
-  value: number;  // Required by TriggerX - yield difference in basis points
-  metadata: {
-    aaveAPY: number;
-    compoundAPY: number;
-    difference: number;
-    betterProtocol: string;
+  value: number;  // Required by TriggerX - largest gain available by moving, in basis points (0 when the Safe is optimal)
+  valid: true;
+  metadata: AssetYield & { // asset behind the value
+    safeAddress: string;
+    assets: AssetYield[];
+    blockNumber: number;
+    blockTimestamp: number;
     timestamp: number;
     network: string;
   };
 }
 
+// Returned with 503 instead of a value, so the job cannot act on it
+interface InvalidYieldData {
+  valid: false;
+  errors: string[];
+  timestamp: number;
+  network: string;
+}
+
+// Supply rate plus market utilization in basis points
+interface MarketRate extends SupplyRate {
+  utilization: number;
+  updatedAt?: number; // last on-chain rate update, seconds since epoch (Aave)
+}
+
+// Both rates of one asset, read in the same request
+interface MarketReading {
+  tokenAddress: string;
+  aave: MarketRate;
+  compound: MarketRate;
+}
+
+// Last valid response per Safe, reused for monitor.cacheTtlSeconds
+const cachedResponses = new Map<string, { expiresAt: number; response: YieldData }>();
+
 /**
- * Get Aave V3 APY
+ * Get Aave V3 supply rate
+ * @throws If the reserve cannot be read
  */
-async function getAaveAPY(provider: ethers.Provider): Promise<number> {
-  try {
-    const dataProvider = new ethers.Contract(
-      AAVE_DATA_PROVIDER,
-      AAVE_DATA_PROVIDER_ABI,
-      provider
-    );
-    
-    const reserveData = await dataProvider.getReserveData(USDC_ADDRESS);
-    const liquidityRate = Array.isArray(reserveData) ? reserveData[5] : reserveData.liquidityRate;
-    
-    if (!liquidityRate || liquidityRate === 0n) {
-      return 0;
-    }
-    
-    // Aave V3 liquidity rate is in RAY (1e27) and already annualized
-    const apyBasisPoints = Math.floor(Number(liquidityRate) / 1e27 * 10000);
-    return apyBasisPoints;
-  } catch (error) {
-    console.error('Error fetching Aave APY:', error);
-    return 0;
-  }
+async function getAaveRate(
+  provider: ethers.Provider,
+  dataProviderAddress: string,
+  tokenAddress: string,
+  blockTag: number
+): Promise<MarketRate> {
+  const dataProvider = new ethers.Contract(
+    dataProviderAddress,
+    AAVE_DATA_PROVIDER_ABI,
+    provider
+  );
+  
+  const reserveData = await dataProvider.getReserveData(tokenAddress, { blockTag });
+  const liquidityRate: bigint = reserveData.liquidityRate;
+  const updatedAt = Number(reserveData.lastUpdateTimestamp);
+  
+  const totalDebt: bigint = reserveData.totalStableDebt + reserveData.totalVariableDebt;
+  const totalAToken: bigint = reserveData.totalAToken;
+  const utilization = totalAToken > 0n ? Number((totalDebt * 10000n) / totalAToken) : 0;
+  
+  // Aave V3 liquidity rate is an APR in RAY (1e27)
+  return { ...aaveSupplyRate(liquidityRate), utilization, updatedAt };
 }
 
 /**
- * Get Compound V3 APY
+ * Get Compound V3 supply rate
+ * @throws If the market cannot be read
  */
-async function getCompoundAPY(provider: ethers.Provider): Promise<number> {
-  try {
-    const comet = new ethers.Contract(
-      COMPOUND_COMET,
-      COMPOUND_COMET_ABI,
-      provider
-    );
-    
-    const utilization = await comet.getUtilization();
-    const supplyRate = await comet.getSupplyRate(utilization);
-    
-    // Compound V3 returns rate per second, annualize it
-    const secondsPerYear = 365.25 * 24 * 60 * 60;
-    const ratePerSecond = Number(supplyRate) / 1e18;
-    const apy = ratePerSecond * secondsPerYear;
-    const apyBasisPoints = Math.floor(apy * 10000);
-    
-    return apyBasisPoints;
-  } catch (error) {
-    console.error('Error fetching Compound APY:', error);
-    return 0;
-  }
+async function getCompoundRate(provider: ethers.Provider, cometAddress: string, blockTag: number): Promise<MarketRate> {
+  const comet = new ethers.Contract(
+    cometAddress,
+    COMPOUND_COMET_ABI,
+    provider
+  );
+  
+  const utilization = await comet.getUtilization({ blockTag });
+  const supplyRate = await comet.getSupplyRate(utilization, { blockTag });
+  
+  // Compound V3 returns a per-second rate in WAD (1e18), utilization is scaled by 1e18
+  return {
+    ...compoundSupplyRate(supplyRate),
+    utilization: Number((utilization * 10000n) / WAD)
+  };
 }
 
 /**
- * Main API handler
+ * Check a market reading is fresh and plausible
+ * @param blockTimestamp Timestamp of the block the rates were read at, in seconds
+ * @returns Problems found (empty when the reading can be acted on)
  */
-export default async function handler(req: any, res: any) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+function checkReading(
+  reading: MarketReading,
+  blockTimestamp: number,
+  limits: OptimizerConfig['monitor']
+): string[] {
+  const problems: string[] = [];
+  const label = getAssetLabel(reading.tokenAddress);
+  
+  for (const [protocol, rate] of [['Aave', reading.aave], ['Compound', reading.compound]] as const) {
+    if (!Number.isFinite(rate.apy) || rate.apy < 0 || rate.apy > limits.maxApy) {
+      problems.push(`${label} ${protocol} APY ${rate.apy} bp is outside 0-${limits.maxApy} bp`);
+    }
+    if (!Number.isFinite(rate.utilization) || rate.utilization < 0 || rate.utilization > 10000) {
+      problems.push(`${label} ${protocol} utilization ${rate.utilization} bp is outside 0-10000 bp`);
+    }
+  }
   
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
+  // A reserve never updated (or not listed) reads as lastUpdateTimestamp 0
+  const rateAge = blockTimestamp - (reading.aave.updatedAt ?? 0);
+  if (limits.maxRateAgeSeconds > 0 && rateAge > limits.maxRateAgeSeconds) {
+    problems.push(`${label} Aave reserve was last updated ${rateAge}s before the block (max ${limits.maxRateAgeSeconds}s)`);
   }
   
+  return problems;
+}
+
+/**
+ * Decide one asset from the Safe's position, with the rates read (and checked) here
+ */
+async function observeAsset(reading: MarketReading, safeAddress: string): Promise<AssetYield> {
+  const { tokenAddress, aave: aaveRate, compound: compoundRate } = reading;
+  const yieldData = await compareYields(tokenAddress, {
+    safeAddress,
+    spotAPYs: { aave: aaveRate.apy, compound: compoundRate.apy },
+    utilization: { aave: aaveRate.utilization, compound: compoundRate.utilization },
+    source: 'monitor'
+  });
+  
+  return {
+    asset: yieldData.asset.symbol,
+    tokenAddress,
+    aaveAPY: aaveRate.apy,
+    aaveAPR: aaveRate.apr,
+    compoundAPY: compoundRate.apy,
+    compoundAPR: compoundRate.apr,
+    difference: yieldData.difference,
+    gain: yieldData.shouldMove ? yieldData.difference : 0,
+    betterProtocol: yieldData.betterProtocol,
+    currentProtocols: yieldData.currentProtocols,
+    shouldMove: yieldData.shouldMove,
+    reason: yieldData.shouldMove ? undefined : (yieldData.profitability?.reason ?? yieldData.hysteresis?.reason),
+    hysteresis: yieldData.hysteresis
+  };
+}
+
+/**
+ * Answer 503 without a value, so the job cannot act on the data
+ */
+function rejectYieldData(res: any, errors: string[], network: string) {
+  console.warn(`WARNING: Yield data rejected:\n  - ${errors.join('\n  - ')}`);
+  incrementMetric(monitorFallbacks, { status: '503' });
+  const invalid: InvalidYieldData = {
+    valid: false,
+    errors,
+    timestamp: Date.now(),
+    network
+  };
+  return res.status(503).json(invalid);
+}
+
+/**
+ * Main API handler (CORS, authentication and rate limiting in withApiGuard)
+ */
+async function handler(req: any, res: any) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
   
   try {
-    // Use provided RPC or default to Arbitrum public RPC
-    const rpcUrl = process.env.RPC_URL || 'https://arb1.arbitrum.io/rpc';
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    // Network profile defaults to Arbitrum and its public RPC; refuses an RPC on another chain
+    const { config, provider } = await connect();
     
-    // Fetch APYs in parallel
-    const [aaveAPY, compoundAPY] = await Promise.all([
-      getAaveAPY(provider),
-      getCompoundAPY(provider)
-    ]);
+    // ?safe=0x... checks another Safe than the configured one
+    const safeParam = req.query?.safe;
+    if (safeParam !== undefined && (typeof safeParam !== 'string' || !ethers.isAddress(safeParam))) {
+      return res.status(400).json({ valid: false, error: 'Invalid safe parameter', message: 'Expected a Safe address' });
+    }
+    const safeAddress = safeParam ? ethers.getAddress(safeParam) : config.safeAddress;
+    // Every Safe gets its own hysteresis state file, so only configured ones are answered for
+    if (safeParam && safeAddress !== config.safeAddress && !config.monitor.safes?.includes(safeAddress!)) {
+      return res.status(403).json({
+        valid: false,
+        error: 'Safe not monitored',
+        message: 'Add the Safe to monitor.safes (MONITOR_SAFES) to check it with ?safe='
+      });
+    }
+    if (!safeAddress) {
+      return res.status(400).json({
+        valid: false,
+        error: 'No Safe to check',
+        message: 'Pass ?safe=0x... or set safeAddress (SAFE_WALLET_ADDRESS)'
+      });
+    }
     
-    // Calculate difference (absolute value in basis points)
-    const difference = Math.abs(aaveAPY - compoundAPY);
-    const betterProtocol = aaveAPY > compoundAPY ? 'aave' : 'compound';
+    // Repeated polls within the TTL get the same answer (and count as one observation)
+    const cached = cachedResponses.get(safeAddress);
+    if (cached && cached.expiresAt > Date.now()) {
+      res.setHeader('X-Cache', 'HIT');
+      return res.status(200).json(cached.response);
+    }
+    res.setHeader('X-Cache', 'MISS');
+    
+    // Assets without a Compound market have nothing to compare against
+    const markets = getAssetAddresses()
+      .map(tokenAddress => ({ tokenAddress, cometAddress: findCometAddress(tokenAddress) }))
+      .filter((market): market is { tokenAddress: string; cometAddress: string } => !!market.cometAddress);
+    if (markets.length === 0) {
+      throw new Error('No managed asset has both an Aave and a Compound market');
+    }
+    
+    // Read every rate at one block; a failed read is an error, never a rate of 0
+    const errors: string[] = [];
+    const block = await provider.getBlock('latest');
+    if (!block) {
+      throw new Error('RPC returned no latest block');
+    }
+    const readings = await Promise.all(markets.map(async (market): Promise<MarketReading | null> => {
+      const [aave, compound] = await Promise.allSettled([
+        getAaveRate(provider, config.contracts.aaveDataProvider, market.tokenAddress, block.number),
+        getCompoundRate(provider, market.cometAddress, block.number)
+      ]);
+      for (const [protocol, result] of [['Aave', aave], ['Compound', compound]] as const) {
+        if (result.status === 'rejected') {
+          errors.push(`${getAssetLabel(market.tokenAddress)} ${protocol} rate unavailable: ${result.reason?.shortMessage || result.reason?.message || result.reason}`);
+        }
+      }
+      return aave.status === 'fulfilled' && compound.status === 'fulfilled'
+        ? { tokenAddress: market.tokenAddress, aave: aave.value, compound: compound.value }
+        : null;
+    }));
+    
+    const blockAge = Math.floor(Date.now() / 1000) - block.timestamp;
+    if (config.monitor.maxBlockAgeSeconds > 0 && blockAge > config.monitor.maxBlockAgeSeconds) {
+      errors.push(`Latest block ${block.number} is ${blockAge}s old (max ${config.monitor.maxBlockAgeSeconds}s)`);
+    }
+    for (const reading of readings) {
+      if (reading) {
+        errors.push(...checkReading(reading, block.timestamp, config.monitor));
+      }
+    }
+    
+    // Bad inputs must not move hysteresis state or reach the job as a value
+    if (errors.length > 0) {
+      return rejectYieldData(res, errors, config.network);
+    }
+    
+    // A balance that cannot be read is not an empty position
+    const assets: AssetYield[] = [];
+    for (const reading of readings as MarketReading[]) {
+      try {
+        assets.push(await observeAsset(reading, safeAddress));
+      } catch (error: any) {
+        errors.push(`${getAssetLabel(reading.tokenAddress)} position unavailable: ${error.shortMessage || error.message}`);
+      }
+    }
+    if (errors.length > 0) {
+      return rejectYieldData(res, errors, config.network);
+    }
+    
+    // Report the asset with the largest gain, else the largest spread
+    const moving = assets.filter(entry => entry.shouldMove);
+    const driver = (moving.length > 0 ? moving : assets).reduce((best, entry) => (entry.difference > best.difference ? entry : best));
     
     const response: YieldData = {
-      value: difference, // TriggerX will use this value for condition checking
+      value: driver.gain, // TriggerX will use this value for condition checking
+      valid: true,
       metadata: {
-        aaveAPY,
-        compoundAPY,
-        difference,
-        betterProtocol,
+        ...driver,
+        safeAddress,
+        assets,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
         timestamp: Date.now(),
-        network: 'arbitrum'
+        network: config.network
       }
     };
     
+    if (config.monitor.cacheTtlSeconds > 0) {
+      cachedResponses.set(safeAddress, { expiresAt: Date.now() + config.monitor.cacheTtlSeconds * 1000, response });
+    }
     return res.status(200).json(response);
     
   } catch (error: any) {
     console.error('Error in yield monitor:', error);
+    incrementMetric(monitorFallbacks, { status: '500' });
     return res.status(500).json({
+      valid: false,
       error: 'Failed to fetch yield data',
       message: error.message
     });
   }
 }
 
+export default withApiGuard('monitor', handler);
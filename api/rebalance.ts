@@ -0,0 +1,131 @@
+import { compareAllAssets } from '../src/yieldMonitor';
+import { SafeTransaction } from '../src/contracts/adapter';
+import { buildRebalanceTransactions } from '../src/rebalance';
+import { buildExecJobFromHubArguments } from '../src/multisend';
+import { SimulationReport, simulateRebalance } from '../src/simulate';
+import { withApiGuard } from '../src/apiGuard';
+import { incrementMetric, rebalancesTriggered } from '../src/metrics';
+import { connect } from '../src/config';
+
+/**
+ * TriggerX Dynamic Arguments Endpoint
+ *
+ * Generates the rebalance calldata at trigger time for ArgType.Dynamic jobs.
+ * Reads live APYs and Safe balances, runs the same per-asset decisions as
+ * compareAllAssets, and returns the arguments of TriggerXSafeModule.execJobFromHub:
+ *
+ *   [safeAddress, actionTarget, actionValue, actionData, operation, jobOwner]
+ *
+ * The withdraw/approve/supply steps of every asset that should move are bundled
+ * into one atomic MultiSend. When no move is needed anymore, responds 409 so
+ * nothing is executed. Each asset's steps are simulated from the Safe first;
+ * a bundle that would revert gets a 422. When a rate or balance cannot be read,
+ * responds 503: a failed read must never be decided on as a rate or balance of 0.
+ *
+ * Guarded like api/monitor.ts: the calldata reveals the Safe's positions
+ *
+ * Deploy alongside api/monitor.ts (served as /api/rebalance)
+ */
+
+/**
+ * Main API handler (CORS, authentication and rate limiting in withApiGuard)
+ */
+async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  let connection;
+  try {
+    connection = await connect();
+  } catch (error: any) {
+    return res.status(500).json({ error: 'Invalid configuration', message: error.message });
+  }
+  const { config, provider } = connection;
+
+  const { safeAddress } = config;
+  const jobOwner = config.job.jobOwner;
+
+  if (!safeAddress || !jobOwner) {
+    return res.status(500).json({
+      error: 'Missing configuration',
+      message: 'safeAddress (SAFE_WALLET_ADDRESS) and job.jobOwner (JOB_OWNER_ADDRESS) must be set'
+    });
+  }
+
+  try {
+    let comparisons;
+    try {
+      // api/monitor already observed this cycle; a second observation would double-count it
+      comparisons = await compareAllAssets({ persist: false });
+    } catch (error: any) {
+      console.warn(`WARNING: Yield data unavailable: ${error.message}`);
+      return res.status(503).json({ error: 'Yield data unavailable', message: error.message });
+    }
+    const moves = comparisons.filter(yieldData => yieldData.shouldMove);
+
+    if (moves.length === 0) {
+      return res.status(409).json({
+        error: 'No rebalance needed',
+        assets: comparisons.map(yieldData => ({
+          asset: yieldData.asset.symbol,
+          difference: yieldData.difference,
+          betterProtocol: yieldData.betterProtocol,
+          reason: yieldData.profitability?.reason ?? yieldData.hysteresis?.reason
+        }))
+      });
+    }
+
+    const transactions: SafeTransaction[] = [];
+    const simulations: (SimulationReport | null)[] = [];
+    for (const yieldData of moves) {
+      const assetTransactions = buildRebalanceTransactions(yieldData.plan, yieldData.asset.address, safeAddress, yieldData.asset.decimals, false);
+
+      // Never hand TriggerX a bundle that would revert
+      const simulation = config.simulation.skip
+        ? null
+        : await simulateRebalance(provider, assetTransactions, yieldData.asset.address, safeAddress, yieldData.plan);
+      if (simulation && !simulation.success) {
+        return res.status(422).json({
+          error: 'Rebalance bundle would revert',
+          asset: yieldData.asset.symbol,
+          reason: simulation.revertReason,
+          simulation
+        });
+      }
+
+      transactions.push(...assetTransactions);
+      simulations.push(simulation);
+    }
+    const args = buildExecJobFromHubArguments(safeAddress, transactions, jobOwner);
+
+    // ?debug=1 shows the plans behind the arguments
+    if (req.query?.debug) {
+      return res.status(200).json({
+        arguments: args,
+        assets: moves.map((yieldData, i) => ({
+          asset: yieldData.asset.symbol,
+          plan: yieldData.plan,
+          simulation: simulations[i],
+          difference: yieldData.difference,
+          betterProtocol: yieldData.betterProtocol
+        })),
+        transactions
+      });
+    }
+
+    for (const yieldData of moves) {
+      incrementMetric(rebalancesTriggered, { asset: yieldData.asset.symbol });
+    }
+    return res.status(200).json(args);
+
+  } catch (error: any) {
+    console.error('Error generating rebalance arguments:', error);
+    return res.status(500).json({
+      error: 'Failed to generate rebalance arguments',
+      message: error.message
+    });
+  }
+}
+
+export default withApiGuard('rebalance', handler);
@@ -13,13 +13,15 @@ interface ITriggerXSafeModule {
     /// @param actionValue ETH value for the action
     /// @param actionData Calldata for the actionTarget
     /// @param operation 0 = CALL, 1 = DELEGATECALL
+    /// @param jobOwner Owner of the TriggerX job being executed
     /// @return success Whether the execution was successful
     function execJobFromHub(
         address safeAddress,
         address actionTarget,
         uint256 actionValue,
         bytes calldata actionData,
-        uint8 operation
+        uint8 operation,
+        address jobOwner
     ) external returns (bool success);
 
     /// @dev Returns the TaskExecutionHub address
@@ -109,81 +109,29 @@ start_local_api() {
         sleep 1
     fi
     
-    # Start API server
-    node -e "
-const http = require('http');
-const { ethers } = require('ethers');
-
-// Arbitrum mainnet addresses
-const AAVE_DATA_PROVIDER = '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654';
-const COMPOUND_COMET = '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf';
-const USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
-const RPC = 'http://127.0.0.1:8545';
-
-const AAVE_ABI = ['function getReserveData(address) view returns (uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint256,uint40)'];
-const COMPOUND_ABI = ['function getSupplyRate(uint256) view returns (uint64)', 'function getUtilization() view returns (uint256)'];
-
-async function getYields() {
-    const provider = new ethers.JsonRpcProvider(RPC);
-    const aave = new ethers.Contract(AAVE_DATA_PROVIDER, AAVE_ABI, provider);
-    const compound = new ethers.Contract(COMPOUND_COMET, COMPOUND_ABI, provider);
-
-    try {
-        const reserveData = await aave.getReserveData(USDC);
-        const aaveAPY = Math.floor(Number(reserveData[5]) / 1e27 * 10000);
-
-        const utilization = await compound.getUtilization();
-        const supplyRate = await compound.getSupplyRate(utilization);
-        const secondsPerYear = 365.25 * 24 * 60 * 60;
-        const compoundAPY = Math.floor(Number(supplyRate) / 1e18 * secondsPerYear * 10000);
-
-        const difference = Math.abs(aaveAPY - compoundAPY);
-
-        return {
-            value: difference,
-            metadata: {
-                aaveAPY,
-                compoundAPY,
-                difference,
-                betterProtocol: aaveAPY > compoundAPY ? 'aave' : 'compound',
-                timestamp: Date.now(),
-                network: 'arbitrum-fork'
-            }
-        };
-    } catch (error) {
-        console.error('Error fetching yields:', error.message);
-        throw error;
-    }
-}
-
-const server = http.createServer(async (req, res) => {
-    if (req.url === '/api/monitor' && req.method === 'GET') {
-        res.setHeader('Access-Control-Allow-Origin', '*');
-        res.setHeader('Content-Type', 'application/json');
-        try {
-            const data = await getYields();
-            res.writeHead(200);
-            res.end(JSON.stringify(data));
-        } catch (error) {
-            res.writeHead(500);
-            res.end(JSON.stringify({ error: error.message }));
-        }
-    } else {
-        res.writeHead(404);
-        res.end('Not found');
-    }
-});
-
-server.listen(3000, () => {
-    console.log('SUCCESS: API server running on http://localhost:3000/api/monitor');
-});
-" > /tmp/api-server.js &
+    # Start the API server (src/server.ts) against the fork
+    # The fork's latest block keeps the forked block's timestamp, so the block age check is off
+    MONITOR_MAX_BLOCK_AGE=0 ./node_modules/.bin/ts-node src/server.ts > /tmp/yield-optimizer-api.log 2>&1 &
 
 API_PID=$!
 echo $API_PID > /tmp/yield-optimizer-api.pid
 
-# Wait for server to start
-sleep 2
+# Wait until the server is ready (config valid, fork reachable)
+READY=false
+for _ in $(seq 1 30); do
+    if curl -sf http://localhost:3000/readyz > /dev/null; then
+        READY=true
+        break
+    fi
+    sleep 1
+done
+if [ "$READY" != true ]; then
+    echo -e "${RED}ERROR: API server not ready after 30s${NC}"
+    curl -s http://localhost:3000/readyz || true
+    echo ""
+    echo "   See /tmp/yield-optimizer-api.log"
+    exit 1
+fi
 
 # Test the API
 if curl -s http://localhost:3000/api/monitor > /dev/null; then
@@ -191,6 +139,7 @@ if curl -s http://localhost:3000/api/monitor > /dev/null; then
     echo "   URL: http://localhost:3000/api/monitor"
 else
     echo -e "${RED}ERROR: Failed to start API server${NC}"
+    echo "   See /tmp/yield-optimizer-api.log"
     exit 1
 fi
 }
@@ -0,0 +1,227 @@
+import * as crypto from 'crypto';
+import { apiRequests, apiRequestSeconds, incrementMetric } from './metrics';
+import { loadConfig } from './config';
+
+/**
+ * API request guard
+ * Wraps the Vercel-style handlers in api/ with CORS, optional authentication,
+ * per-IP rate limiting, request metrics and one JSON log line per request.
+ * Works the same on Vercel and on a plain Node HTTP server (src/server.ts)
+ *
+ * Authentication is on when API_AUTH_TOKEN or API_HMAC_SECRET is set:
+ *   - token: `Authorization: Bearer <token>` or `?token=<token>`
+ *   - HMAC: `?expires=<unix seconds>&signature=<hex HMAC-SHA256 of the path and query>`,
+ *     as made by signUrl; refused once `expires` has passed, so a captured URL is not valid forever
+ * TriggerX fetches value sources and dynamic-arguments scripts as plain GET URLs,
+ * so the URLs given to a job carry the credentials (see authorizeUrl)
+ */
+
+export type ApiHandler = (req: any, res: any) => unknown;
+
+type AuthMethod = 'token' | 'hmac' | 'none';
+
+// Query parameters holding credentials (excluded from signatures, masked in logs)
+const CREDENTIAL_PARAMS = ['token', 'signature'];
+
+// Requests per client IP in its current window
+const rateWindows = new Map<string, { resetAt: number; count: number }>();
+
+function getCredentials(): { token?: string; hmacSecret?: string } {
+  return {
+    token: process.env.API_AUTH_TOKEN || undefined,
+    hmacSecret: process.env.API_HMAC_SECRET || undefined
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * What a signature covers: the URL's path and query without credential parameters
+ */
+function signedContent(url: URL): string {
+  const params = new URLSearchParams(url.search);
+  for (const name of CREDENTIAL_PARAMS) {
+    params.delete(name);
+  }
+  const query = params.toString();
+  return `${url.pathname}${query ? `?${query}` : ''}`;
+}
+
+function hmac(secret: string, content: string): string {
+  return crypto.createHmac('sha256', secret).update(content).digest('hex');
+}
+
+/**
+ * Sign an endpoint URL
+ * The signature covers the query too, so a URL signed for one Safe (?safe=) is refused for another,
+ * and its expiry cannot be pushed back
+ * @param lifetimeSeconds How long the signed URL is accepted
+ */
+export function signUrl(url: string, secret: string, lifetimeSeconds: number): string {
+  const parsed = new URL(url);
+  parsed.searchParams.set('expires', String(Math.floor(Date.now() / 1000) + lifetimeSeconds));
+  parsed.searchParams.set('signature', hmac(secret, signedContent(parsed)));
+  return parsed.toString();
+}
+
+/**
+ * Add the configured credentials to an endpoint URL handed to TriggerX
+ * Signs it when API_HMAC_SECRET is set, else adds API_AUTH_TOKEN; unchanged without either.
+ * Credentials already on the URL are replaced
+ * @param lifetimeSeconds How long a signed URL stays valid, normally the job's time frame
+ */
+export function authorizeUrl(url: string, lifetimeSeconds: number): string {
+  const { token, hmacSecret } = getCredentials();
+  if (hmacSecret) {
+    return signUrl(url, hmacSecret, lifetimeSeconds);
+  }
+  if (token) {
+    const parsed = new URL(url);
+    parsed.searchParams.set('token', token);
+    return parsed.toString();
+  }
+  return url;
+}
+
+/**
+ * Check a request's credentials
+ * @returns How the request authenticated, or null when it did not
+ */
+function authenticate(req: any, url: URL): AuthMethod | null {
+  const { token, hmacSecret } = getCredentials();
+  if (!token && !hmacSecret) {
+    return 'none';
+  }
+
+  const authorization = String(req.headers?.authorization ?? '');
+  const presented = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : url.searchParams.get('token');
+  if (token && presented && safeEqual(presented, token)) {
+    return 'token';
+  }
+
+  const signature = url.searchParams.get('signature');
+  const expires = Number(url.searchParams.get('expires'));
+  if (
+    hmacSecret && signature &&
+    Number.isInteger(expires) && expires * 1000 > Date.now() &&
+    safeEqual(signature.toLowerCase(), hmac(hmacSecret, signedContent(url)))
+  ) {
+    return 'hmac';
+  }
+  return null;
+}
+
+function getClientIp(req: any, trustProxy: boolean): string {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    return String(forwarded).split(',')[0].trim();
+  }
+  return req.socket?.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Count a request against its client's window
+ * @returns Seconds until the window resets when the client is over the limit, else undefined
+ */
+function takeRateLimit(res: any, ip: string, limit: number, windowSeconds: number): number | undefined {
+  const now = Date.now();
+  let window = rateWindows.get(ip);
+  if (!window || window.resetAt <= now) {
+    // Forget finished windows now and then, so scanning clients cannot grow the map forever
+    if (rateWindows.size >= 10000) {
+      for (const [key, entry] of rateWindows) {
+        if (entry.resetAt <= now) rateWindows.delete(key);
+      }
+    }
+    window = { resetAt: now + windowSeconds * 1000, count: 0 };
+    rateWindows.set(ip, window);
+  }
+
+  window.count++;
+  res.setHeader('X-RateLimit-Limit', String(limit));
+  res.setHeader('X-RateLimit-Remaining', String(Math.max(0, limit - window.count)));
+  return window.count > limit ? Math.ceil((window.resetAt - now) / 1000) : undefined;
+}
+
+/**
+ * Request path with credentials masked, for logs
+ */
+function redactPath(url: URL): string {
+  const params = new URLSearchParams(url.search);
+  for (const name of CREDENTIAL_PARAMS) {
+    if (params.has(name)) params.set(name, 'redacted');
+  }
+  const query = params.toString();
+  return `${url.pathname}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Wrap an API handler with CORS, authentication, rate limiting, metrics and request logging
+ * Rate limiting comes first, so guessing credentials is throttled too
+ * @param endpoint Endpoint name in the logs (e.g. 'monitor')
+ */
+export function withApiGuard(endpoint: string, handler: ApiHandler): ApiHandler {
+  return async (req: any, res: any) => {
+    const startedAt = Date.now();
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    let api;
+    try {
+      api = loadConfig().api;
+    } catch (error: any) {
+      return res.status(500).json({ error: 'Invalid configuration', message: error.message });
+    }
+    // Vercel always sits behind its own proxy
+    const ip = getClientIp(req, api.trustProxy || !!process.env.VERCEL);
+    let auth: AuthMethod | null = null;
+
+    res.on('finish', () => {
+      const status: number = res.statusCode;
+      const durationMs = Date.now() - startedAt;
+      incrementMetric(apiRequests, { endpoint, status: String(status) });
+      incrementMetric(apiRequestSeconds, { endpoint }, durationMs / 1000);
+      if (!api.logRequests) {
+        return;
+      }
+      console.log(JSON.stringify({
+        time: new Date().toISOString(),
+        level: status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info',
+        endpoint,
+        method: req.method,
+        path: redactPath(url),
+        status,
+        durationMs,
+        ip,
+        auth,
+        cache: res.getHeader('X-Cache')
+      }));
+    });
+
+    res.setHeader('Access-Control-Allow-Origin', api.allowOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    // Preflight requests carry no credentials
+    if (req.method === 'OPTIONS') {
+      return res.status(200).end();
+    }
+
+    const retryAfter = api.rateLimit > 0 ? takeRateLimit(res, ip, api.rateLimit, api.rateLimitWindowSeconds) : undefined;
+    if (retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: 'Too many requests', retryAfter });
+    }
+
+    auth = authenticate(req, url);
+    if (!auth) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    return handler(req, res);
+  };
+}
@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+import * as path from 'path';
+import { ERC20_ABI } from './contracts/aave';
+import { NETWORKS, findTokenSymbol } from './contracts/networks';
+import { getTokenDecimals } from './costs';
+import { loadConfig } from './config';
+
+/**
+ * Managed assets
+ * Every token in `assets` (ASSETS) is optimized on its own: its own markets,
+ * decimals, hysteresis state and rebalance decision. Without `assets`, only
+ * tokenAddress is managed
+ */
+
+export interface Asset {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Addresses of the tokens to optimize, in configured order
+ */
+export function getAssetAddresses(): string[] {
+  const config = loadConfig();
+  return config.assets ?? [config.tokenAddress];
+}
+
+/**
+ * Short name of a token: its registry symbol, else its address
+ */
+export function getAssetLabel(tokenAddress: string): string {
+  return findTokenSymbol(loadConfig().chainId, tokenAddress) ?? tokenAddress;
+}
+
+/**
+ * Look up a token's symbol and decimals
+ * Symbols come from the network registry, falling back to the token contract
+ * @throws If the token's decimals cannot be read
+ */
+export async function getAsset(provider: ethers.Provider, tokenAddress: string): Promise<Asset> {
+  let symbol = findTokenSymbol(loadConfig().chainId, tokenAddress);
+  if (!symbol) {
+    try {
+      symbol = String(await new ethers.Contract(tokenAddress, ERC20_ABI, provider).symbol());
+    } catch {
+      symbol = tokenAddress;
+    }
+  }
+
+  return { address: tokenAddress, symbol, decimals: await getTokenDecimals(provider, tokenAddress) };
+}
+
+/**
+ * Look up every managed asset
+ */
+export async function resolveAssets(provider: ethers.Provider): Promise<Asset[]> {
+  return Promise.all(getAssetAddresses().map(address => getAsset(provider, address)));
+}
+
+/**
+ * State file of one asset (and Safe)
+ * tokenAddress of the configured Safe keeps the configured file, so existing state carries over;
+ * other assets add their symbol before the extension (.optimizer-state.usdt.json), other Safes
+ * their address
+ * @param safeAddress Safe the state is about (default: the configured Safe)
+ */
+export function assetStateFile(stateFile: string, tokenAddress: string, safeAddress?: string): string {
+  const config = loadConfig();
+  const suffixes: string[] = [];
+  if (tokenAddress.toLowerCase() !== config.tokenAddress.toLowerCase()) {
+    suffixes.push(getAssetLabel(tokenAddress).toLowerCase());
+  }
+  if (safeAddress && safeAddress.toLowerCase() !== config.safeAddress?.toLowerCase()) {
+    suffixes.push(safeAddress.toLowerCase());
+  }
+
+  if (suffixes.length === 0) {
+    return stateFile;
+  }
+  const { dir, name, ext } = path.parse(stateFile);
+  return path.join(dir, `${[name, ...suffixes].join('.')}${ext}`);
+}
+
+/**
+ * Resolve a token given on the command line as a registry symbol or an address
+ * @throws If the symbol is not in the registry of the configured network
+ */
+export function parseAssetOption(value: string): string {
+  if (value.startsWith('0x')) {
+    return ethers.getAddress(value);
+  }
+  const config = loadConfig();
+  const address = NETWORKS[config.chainId]?.TOKENS[value.toUpperCase()];
+  if (!address) {
+    throw new Error(`Unknown asset ${value} on ${config.network}; use a token address`);
+  }
+  return address;
+}
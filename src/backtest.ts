@@ -0,0 +1,375 @@
+import * as fs from 'fs';
+import { ethers } from 'ethers';
+import { ProtocolId } from './contracts/adapter';
+import { getAdapter } from './contracts/registry';
+import { ProtocolPosition, RebalancePlan, buildRebalanceTransactions } from './rebalance';
+import { StrategyConfig, loadStrategyConfig } from './strategy';
+import { rankProtocols, decideRebalance } from './decision';
+import {
+  CostConfig,
+  loadCostConfig,
+  getConfiguredEthPrice,
+  convertWeiToToken,
+  projectYieldGain,
+  estimateSlippage,
+  evaluateProfitability
+} from './costs';
+import { HysteresisConfig, OptimizerState, loadHysteresisConfig, recordVenue, observeSpread } from './hysteresis';
+import { SampleSource, readSamples, getHistoryFile } from './history/store';
+import { getAssetLabel, parseAssetOption } from './assets';
+import { loadConfig } from './config';
+
+/**
+ * Backtest
+ * Replays a series of recorded or imported rates through the same decision
+ * logic as compareYields, with a simulated balance and cost model, and compares
+ * the result with leaving the funds where they started
+ *
+ * The series has no liquidity data, so post-move APYs are taken to equal spot APYs
+ */
+
+// APYs observed at one point in time, in basis points
+export interface RatePoint {
+  timestamp: number;
+  apys: Record<ProtocolId, number>;
+}
+
+export interface BacktestOptions {
+  tokenAddress: string; // asset the series is for; moves are built for its markets
+  initialBalance: bigint; // token's smallest unit
+  startProtocol: ProtocolId; // venue holding the funds at the start
+  minYieldDifference: number;
+  decimals: number;
+  gasPriceWei: bigint;
+  ethPriceInToken: bigint; // token's smallest unit per 1 ETH, prices gas and job fees
+  strategyConfig: StrategyConfig;
+  costConfig: CostConfig;
+  hysteresisConfig: HysteresisConfig;
+}
+
+export interface BacktestResult {
+  minYieldDifference: number;
+  samples: number;
+  from: number;
+  to: number;
+  rebalances: number;
+  finalBalance: string; // balances across venues, after slippage
+  gasPaid: string;
+  jobFeesPaid: string;
+  slippageLost: string;
+  netBalance: string; // final balance minus gas and job fees
+  baselineBalance: string; // stay-put: funds left in the start venue
+  vsBaseline: string; // netBalance - baselineBalance
+}
+
+const YEAR_MS = 365n * 24n * 60n * 60n * 1000n;
+
+/**
+ * Load a rate series from a CSV file
+ * Header: `timestamp,<protocol>,<protocol>...`; timestamps as ISO dates or
+ * milliseconds, APYs in basis points
+ */
+export function loadRateCsv(file: string): RatePoint[] {
+  // Keep file line numbers for error messages while skipping blank lines
+  const [header, ...rows] = fs.readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map((text, i) => ({ text, line: i + 1 }))
+    .filter(entry => entry.text.trim());
+  if (!header) {
+    throw new Error(`Empty rate CSV: ${file}`);
+  }
+  const columns = header.text.split(',').map(column => column.trim());
+  if (columns[0] !== 'timestamp' || columns.length < 2) {
+    throw new Error(`Invalid rate CSV header in ${file} (expected: timestamp,<protocol>,...)`);
+  }
+
+  return rows.map(({ text, line }) => {
+    const values = text.split(',').map(value => value.trim());
+    const timestamp = /^\d+$/.test(values[0]) ? parseInt(values[0]) : new Date(values[0]).getTime();
+    if (isNaN(timestamp)) {
+      throw new Error(`Invalid timestamp "${values[0]}" on line ${line} of ${file}`);
+    }
+
+    const apys: Record<ProtocolId, number> = {};
+    columns.slice(1).forEach((protocol, j) => {
+      const value = values[j + 1] ?? '';
+      if (!/^\d+$/.test(value)) {
+        throw new Error(`Invalid ${protocol} APY "${value}" on line ${line} of ${file} (expected basis points)`);
+      }
+      apys[protocol] = parseInt(value);
+    });
+    return { timestamp, apys };
+  });
+}
+
+/**
+ * Load a rate series from a yield history file (see history/store)
+ * @param asset Only samples of this token
+ */
+export function loadRateHistory(file: string, source?: SampleSource, asset?: string): RatePoint[] {
+  return readSamples({ source, asset }, file).map(sample => ({ timestamp: sample.timestamp, apys: sample.apys }));
+}
+
+/**
+ * Decimals of a token as recorded by its samples in a yield history file
+ * @returns undefined for CSV series, or when no sample records them
+ */
+export function findRecordedDecimals(file: string, source?: SampleSource, asset?: string): number | undefined {
+  if (file.endsWith('.csv')) {
+    return undefined;
+  }
+  return readSamples({ source, asset }, file).find(sample => sample.decimals !== undefined)?.decimals;
+}
+
+/**
+ * Grow every balance by its venue's APY over `elapsedMs`
+ */
+function accrue(
+  balances: Record<ProtocolId, bigint>,
+  apys: Record<ProtocolId, number>,
+  elapsedMs: number
+): void {
+  for (const protocol of Object.keys(balances)) {
+    const interest = (balances[protocol] * BigInt(apys[protocol] ?? 0) * BigInt(elapsedMs)) / (10000n * YEAR_MS);
+    balances[protocol] += interest;
+  }
+}
+
+/**
+ * Move balances according to the plan, losing `slippage` on the way
+ */
+function applyPlan(balances: Record<ProtocolId, bigint>, plan: RebalancePlan, slippage: bigint): void {
+  for (const withdrawal of plan.withdrawals) {
+    balances[withdrawal.protocol] -= BigInt(withdrawal.amount);
+  }
+
+  let lost = slippage;
+  for (const supply of plan.supplies) {
+    const amount = BigInt(supply.amount);
+    const shortfall = lost < amount ? lost : amount;
+    balances[supply.protocol] = (balances[supply.protocol] ?? 0n) + amount - shortfall;
+    lost -= shortfall;
+  }
+}
+
+/**
+ * Replay a rate series through the rebalance decision
+ */
+export function runBacktest(series: RatePoint[], options: BacktestOptions): BacktestResult {
+  if (series.length === 0) {
+    throw new Error('Rate series is empty');
+  }
+
+  const points = [...series].sort((a, b) => a.timestamp - b.timestamp);
+  const protocols = Object.keys(points[0].apys);
+  // Every venue in the series must be registered, as moves are built through its adapter
+  const names: Record<ProtocolId, string> = {};
+  protocols.forEach(protocol => {
+    names[protocol] = getAdapter(protocol).name;
+  });
+  if (!protocols.includes(options.startProtocol)) {
+    throw new Error(`Start protocol "${options.startProtocol}" is not in the rate series (${protocols.join(', ')})`);
+  }
+
+  const balances: Record<ProtocolId, bigint> = {};
+  const baseline: Record<ProtocolId, bigint> = {};
+  protocols.forEach(protocol => {
+    balances[protocol] = protocol === options.startProtocol ? options.initialBalance : 0n;
+    baseline[protocol] = balances[protocol];
+  });
+
+  let state: OptimizerState = { currentProtocol: null, enteredAt: 0, candidate: null, consecutiveObservations: 0, lastObservedAt: 0 };
+  let rebalances = 0;
+  let gasPaid = 0n;
+  let jobFeesPaid = 0n;
+  let slippageLost = 0n;
+  const jobFee = convertWeiToToken(ethers.parseEther(options.costConfig.jobFeeEth), options.ethPriceInToken);
+
+  points.forEach((point, i) => {
+    if (i > 0) {
+      const elapsed = point.timestamp - points[i - 1].timestamp;
+      accrue(balances, points[i - 1].apys, elapsed);
+      accrue(baseline, points[i - 1].apys, elapsed);
+    }
+
+    const rankings = rankProtocols(protocols.map(protocol => ({
+      protocol,
+      name: names[protocol],
+      apy: point.apys[protocol] ?? 0
+    })));
+    const positions: ProtocolPosition[] = protocols.map(protocol => ({
+      protocol,
+      name: names[protocol],
+      apy: point.apys[protocol] ?? 0,
+      balance: balances[protocol].toString()
+    }));
+
+    const decision = decideRebalance(rankings, positions, options.strategyConfig, options.minYieldDifference);
+    let shouldMove = decision.shouldMove;
+
+    // Same hysteresis gate as compareYields
+    if (options.strategyConfig.strategy === 'best') {
+      const largest = protocols.reduce((top, protocol) => (balances[protocol] > balances[top] ? protocol : top));
+      state = recordVenue(state, balances[largest] > 0n ? largest : null, point.timestamp);
+      const candidate = decision.betterProtocol === 'equal' ? null : decision.betterProtocol;
+      const observation = observeSpread(state, candidate, decision.difference, options.hysteresisConfig, point.timestamp);
+      state = observation.state;
+      if (shouldMove && largest !== rankings[0].protocol && !observation.decision.allowed) {
+        shouldMove = false;
+      }
+    }
+
+    if (!shouldMove) {
+      return;
+    }
+
+    // Same profitability check, with gas priced from the configured gas and ETH prices
+    const transactions = buildRebalanceTransactions(decision.plan, options.tokenAddress, ethers.ZeroAddress, options.decimals, false);
+    const gasUnits = BigInt(transactions.length * options.costConfig.gasPerTransaction + options.costConfig.moduleGasOverhead);
+    const gasCost = convertWeiToToken(gasUnits * options.gasPriceWei, options.ethPriceInToken);
+    const slippage = estimateSlippage(decision.plan, options.costConfig.withdrawSlippageBps);
+    const expectedGain = projectYieldGain(positions, decision.plan, point.apys, point.apys, options.costConfig.horizonDays);
+    const profitability = evaluateProfitability(
+      expectedGain, gasCost, jobFee, slippage, options.costConfig.horizonDays, options.decimals
+    );
+    if (!profitability.profitable) {
+      return;
+    }
+
+    applyPlan(balances, decision.plan, slippage);
+    rebalances++;
+    gasPaid += gasCost;
+    jobFeesPaid += jobFee;
+    slippageLost += slippage;
+  });
+
+  const sum = (values: Record<ProtocolId, bigint>) => Object.values(values).reduce((total, value) => total + value, 0n);
+  const finalBalance = sum(balances);
+  const netBalance = finalBalance - gasPaid - jobFeesPaid;
+  const baselineBalance = sum(baseline);
+
+  return {
+    minYieldDifference: options.minYieldDifference,
+    samples: points.length,
+    from: points[0].timestamp,
+    to: points[points.length - 1].timestamp,
+    rebalances,
+    finalBalance: finalBalance.toString(),
+    gasPaid: gasPaid.toString(),
+    jobFeesPaid: jobFeesPaid.toString(),
+    slippageLost: slippageLost.toString(),
+    netBalance: netBalance.toString(),
+    baselineBalance: baselineBalance.toString(),
+    vsBaseline: (netBalance - baselineBalance).toString()
+  };
+}
+
+/**
+ * Parse command line options
+ * --file <csv|jsonl>   rate series (default: yield history file)
+ * --source <source>    only use history samples from 'optimizer' or 'monitor'
+ * --asset <token>      history samples of this asset, symbol or address (default: tokenAddress)
+ * --initial <amount>   starting balance in token units (default 10000)
+ * --start <protocol>   venue holding the funds at the start (default: first column)
+ * --min-diff <bp,...>  MIN_YIELD_DIFFERENCE values to compare (default: config)
+ * --decimals <n>       token decimals (default: as recorded by the history samples of the asset)
+ * --eth-price <amount> price of 1 ETH in the token (default: the asset's costs.ethPrices entry)
+ * --json               print results as JSON
+ */
+function parseArgs(args: string[]) {
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  return {
+    file: option('--file') || getHistoryFile(),
+    source: option('--source') as SampleSource | undefined,
+    asset: option('--asset') ? parseAssetOption(option('--asset')!) : loadConfig().tokenAddress,
+    initial: option('--initial') || '10000',
+    start: option('--start'),
+    minDiffs: option('--min-diff')?.split(',').map(value => parseInt(value)) ?? [loadConfig().thresholds.minYieldDifference],
+    decimals: option('--decimals') !== undefined ? parseInt(option('--decimals')!) : undefined,
+    ethPrice: option('--eth-price'),
+    json: args.includes('--json')
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  console.log(' Rebalance Backtest\n');
+
+  if (!fs.existsSync(args.file)) {
+    throw new Error(`Rate series not found: ${args.file}`);
+  }
+  const series = args.file.endsWith('.csv') ? loadRateCsv(args.file) : loadRateHistory(args.file, args.source, args.asset);
+  if (series.length === 0) {
+    throw new Error(`No rate samples in ${args.file}`);
+  }
+  const decimals = args.decimals ?? findRecordedDecimals(args.file, args.source, args.asset);
+  if (decimals === undefined || !Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Unknown token decimals for ${args.file}: pass --decimals <n>`);
+  }
+  const ethPriceInToken = args.ethPrice !== undefined
+    ? ethers.parseUnits(args.ethPrice, decimals)
+    : getConfiguredEthPrice(args.asset, decimals);
+  if (ethPriceInToken === null || ethPriceInToken <= 0n) {
+    throw new Error(`No ETH price for ${getAssetLabel(args.asset)}: pass --eth-price <amount> or set costs.ethPrices`);
+  }
+
+  const strategyConfig = loadStrategyConfig();
+  const costConfig = loadCostConfig();
+  const baseHysteresis = loadHysteresisConfig();
+  const config = loadConfig();
+  const startProtocol = args.start || Object.keys(series[0].apys)[0];
+  const format = (amount: string) => ethers.formatUnits(amount, decimals);
+
+  console.log(` Series: ${args.file} (${series.length} samples)`);
+  console.log(` Strategy: ${strategyConfig.strategy}, starting in ${startProtocol}`);
+  console.log('');
+
+  const results = args.minDiffs.map(minYieldDifference => {
+    // The exit threshold follows a swept enter threshold unless set explicitly
+    const exitThreshold = config.thresholds.exitYieldDifference !== undefined
+      ? Math.min(baseHysteresis.exitThreshold, minYieldDifference)
+      : minYieldDifference;
+
+    return runBacktest(series, {
+      tokenAddress: args.asset,
+      initialBalance: ethers.parseUnits(args.initial, decimals),
+      startProtocol,
+      minYieldDifference,
+      decimals,
+      gasPriceWei: ethers.parseUnits(config.backtest.gasPriceGwei, 'gwei'),
+      ethPriceInToken,
+      strategyConfig,
+      costConfig,
+      hysteresisConfig: { ...baseHysteresis, enterThreshold: minYieldDifference, exitThreshold }
+    });
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+
+  const first = results[0];
+  console.log(` Period: ${new Date(first.from).toISOString()} -> ${new Date(first.to).toISOString()}`);
+  console.log(` Stay-put baseline: ${format(first.baselineBalance)}\n`);
+
+  for (const result of results) {
+    console.log(` MIN_YIELD_DIFFERENCE ${(result.minYieldDifference / 100).toFixed(2)}%:`);
+    console.log(`   Final balance: ${format(result.netBalance)} (after fees)`);
+    console.log(`   Rebalances: ${result.rebalances}`);
+    console.log(`   Fees: gas ${format(result.gasPaid)}, job ${format(result.jobFeesPaid)}, slippage ${format(result.slippageLost)}`);
+    console.log(`   vs. stay-put: ${BigInt(result.vsBaseline) >= 0n ? '+' : ''}${format(result.vsBaseline)}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
@@ -2,20 +2,22 @@ import { ethers } from 'ethers';
 import * as dotenv from 'dotenv';
 import { getAaveBalance, ERC20_ABI } from './contracts/aave';
 import { getCompoundBalance } from './contracts/compound';
+import { Asset, resolveAssets } from './assets';
+import { ethBalance, safeBalance, setMetric } from './metrics';
+import { connect, requireSetting } from './config';
 
 dotenv.config();
 
 /**
  * Script to check EOA and Safe wallet balances across all locations
  * - ETH balance (for gas fees)
- * - Token balance in wallet
- * - Token balance in Aave
- * - Token balance in Compound
+ * - For every managed asset (see src/assets.ts):
+ *   - Token balance in wallet
+ *   - Token balance in Aave
+ *   - Token balance in Compound (0 when the asset has no Comet market)
  */
 
 interface WalletBalances {
-  ethBalance: bigint;
-  ethBalanceFormatted: string;
   tokenInWallet: bigint;
   tokenInWalletFormatted: string;
   tokenInAave: bigint;
@@ -26,57 +28,27 @@ interface WalletBalances {
   totalTokenBalanceFormatted: string;
 }
 
-interface BalanceReport {
-  eoaAddress: string;
-  safeAddress: string;
+interface AssetBalances {
   tokenAddress: string;
   tokenSymbol: string;
+  tokenDecimals: number;
   eoaBalances: WalletBalances;
   safeBalances: WalletBalances;
-  timestamp: number;
-}
-
-/**
- * Get token symbol from contract
- */
-async function getTokenSymbol(
-  provider: ethers.Provider,
-  tokenAddress: string
-): Promise<string> {
-  try {
-    const tokenContract = new ethers.Contract(
-      tokenAddress,
-      ['function symbol() view returns (string)'],
-      provider
-    );
-    return await tokenContract.symbol();
-  } catch (error) {
-    return 'TOKEN';
-  }
 }
 
-/**
- * Get token decimals from contract
- */
-async function getTokenDecimals(
-  provider: ethers.Provider,
-  tokenAddress: string
-): Promise<number> {
-  try {
-    const tokenContract = new ethers.Contract(
-      tokenAddress,
-      ['function decimals() view returns (uint8)'],
-      provider
-    );
-    return await tokenContract.decimals();
-  } catch (error) {
-    // Default to 6 decimals (USDC standard)
-    return 6;
-  }
+interface BalanceReport {
+  eoaAddress: string;
+  safeAddress: string;
+  eoaEthBalance: bigint;
+  eoaEthBalanceFormatted: string;
+  safeEthBalance: bigint;
+  safeEthBalanceFormatted: string;
+  assets: AssetBalances[];
+  timestamp: number;
 }
 
 /**
- * Get balances for a specific wallet address
+ * Get token balances of one asset for a specific wallet address
  */
 async function getWalletBalances(
   provider: ethers.Provider,
@@ -84,9 +56,6 @@ async function getWalletBalances(
   tokenAddress: string,
   tokenDecimals: number
 ): Promise<WalletBalances> {
-  // Get ETH balance
-  const ethBalance = await provider.getBalance(address);
-
   // Get token balance in wallet
   const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
   const tokenInWallet = await tokenContract.balanceOf(address);
@@ -95,14 +64,12 @@ async function getWalletBalances(
   const tokenInAave = await getAaveBalance(provider, tokenAddress, address);
 
   // Get balance in Compound
-  const tokenInCompound = await getCompoundBalance(provider, address);
+  const tokenInCompound = await getCompoundBalance(provider, tokenAddress, address);
 
   // Calculate total
   const totalTokenBalance = tokenInWallet + tokenInAave + tokenInCompound;
 
   return {
-    ethBalance,
-    ethBalanceFormatted: ethers.formatEther(ethBalance),
     tokenInWallet,
     tokenInWalletFormatted: ethers.formatUnits(tokenInWallet, tokenDecimals),
     tokenInAave,
@@ -119,50 +86,94 @@ async function getWalletBalances(
  */
 async function checkBalances(): Promise<BalanceReport> {
   // Validate environment
-  if (!process.env.RPC_URL) {
-    throw new Error('RPC_URL not configured in .env');
-  }
   if (!process.env.PRIVATE_KEY) {
     throw new Error('PRIVATE_KEY not configured in .env');
   }
-  if (!process.env.SAFE_WALLET_ADDRESS) {
-    throw new Error('SAFE_WALLET_ADDRESS not configured in .env');
-  }
-  if (!process.env.TOKEN_ADDRESS) {
-    throw new Error('TOKEN_ADDRESS not configured in .env');
-  }
 
-  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+  const { config, provider } = await connect();
   const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
   const eoaAddress = wallet.address;
-  const safeAddress = process.env.SAFE_WALLET_ADDRESS;
-  const tokenAddress = process.env.TOKEN_ADDRESS;
+  const safeAddress = requireSetting(config.safeAddress, 'safeAddress');
 
   console.log('Fetching balances for EOA and Safe wallet...\n');
 
-  // Get token info
-  const [tokenSymbol, tokenDecimals] = await Promise.all([
-    getTokenSymbol(provider, tokenAddress),
-    getTokenDecimals(provider, tokenAddress)
+  // Get ETH (gas) balances and token info
+  const [eoaEthBalance, safeEthBalance, assets] = await Promise.all([
+    provider.getBalance(eoaAddress),
+    provider.getBalance(safeAddress),
+    resolveAssets(provider)
   ]);
 
-  // Get balances for both wallets
-  const [eoaBalances, safeBalances] = await Promise.all([
-    getWalletBalances(provider, eoaAddress, tokenAddress, tokenDecimals),
-    getWalletBalances(provider, safeAddress, tokenAddress, tokenDecimals)
-  ]);
+  // Get balances of every asset for both wallets
+  const assetBalances = await Promise.all(assets.map(async (asset: Asset): Promise<AssetBalances> => {
+    const [eoaBalances, safeBalances] = await Promise.all([
+      getWalletBalances(provider, eoaAddress, asset.address, asset.decimals),
+      getWalletBalances(provider, safeAddress, asset.address, asset.decimals)
+    ]);
+    return {
+      tokenAddress: asset.address,
+      tokenSymbol: asset.symbol,
+      tokenDecimals: asset.decimals,
+      eoaBalances,
+      safeBalances
+    };
+  }));
 
   return {
     eoaAddress,
     safeAddress,
-    tokenAddress,
-    tokenSymbol,
-    eoaBalances,
-    safeBalances,
+    eoaEthBalance,
+    eoaEthBalanceFormatted: ethers.formatEther(eoaEthBalance),
+    safeEthBalance,
+    safeEthBalanceFormatted: ethers.formatEther(safeEthBalance),
+    assets: assetBalances,
     timestamp: Date.now()
   };
 }
 
+/**
+ * Refresh the Safe's balances (per asset and venue) and the gas balances in the metrics
+ * Needs no private key: the job owner's ETH is reported when job.jobOwner is set
+ */
+async function collectBalanceMetrics(): Promise<void> {
+  const { config, provider } = await connect();
+  const safeAddress = requireSetting(config.safeAddress, 'safeAddress');
+  const assets = await resolveAssets(provider);
+
+  await Promise.all(assets.map(async asset => {
+    const balances = await getWalletBalances(provider, safeAddress, asset.address, asset.decimals);
+    setMetric(safeBalance, { asset: asset.symbol, venue: 'wallet' }, Number(balances.tokenInWalletFormatted));
+    setMetric(safeBalance, { asset: asset.symbol, venue: 'aave' }, Number(balances.tokenInAaveFormatted));
+    setMetric(safeBalance, { asset: asset.symbol, venue: 'compound' }, Number(balances.tokenInCompoundFormatted));
+  }));
+
+  const wallets: [string, string][] = [['safe', safeAddress]];
+  if (config.job.jobOwner) {
+    wallets.push(['job_owner', config.job.jobOwner]);
+  }
+  await Promise.all(wallets.map(async ([wallet, address]) => {
+    setMetric(ethBalance, { wallet, address }, Number(ethers.formatEther(await provider.getBalance(address))));
+  }));
+}
+
+/**
+ * Format a token amount for display
+ */
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+}
+
+/**
+ * Print one wallet's balances of an asset
+ */
+function displayWalletBalances(balances: WalletBalances, symbol: string) {
+  console.log(`  In Wallet:   ${formatAmount(parseFloat(balances.tokenInWalletFormatted))} ${symbol}`);
+  console.log(`  In Aave:     ${formatAmount(parseFloat(balances.tokenInAaveFormatted))} ${symbol}`);
+  console.log(`  In Compound: ${formatAmount(parseFloat(balances.tokenInCompoundFormatted))} ${symbol}`);
+  console.log(`  ──────────────────────────────────────────────────`);
+  console.log(`  TOTAL:       ${formatAmount(parseFloat(balances.totalTokenBalanceFormatted))} ${symbol}`);
+}
+
 /**
  * Display balance report with nice formatting
  */
@@ -173,37 +184,19 @@ function displayReport(report: BalanceReport) {
 
   console.log(`EOA Address:  ${report.eoaAddress}`);
   console.log(`Safe Address: ${report.safeAddress}`);
-  console.log(`Token: ${report.tokenSymbol} (${report.tokenAddress})`);
+  console.log(`Assets: ${report.assets.map(asset => `${asset.tokenSymbol} (${asset.tokenAddress})`).join(', ')}`);
   console.log(`Timestamp: ${new Date(report.timestamp).toLocaleString()}\n`);
 
-  // EOA Balances
+  // Gas balances
   console.log('═══════════════════════════════════════════════════════');
-  console.log('  EOA (EXTERNALLY OWNED ACCOUNT)');
+  console.log('  ETH (GAS)');
   console.log('═══════════════════════════════════════════════════════');
-  
-  const eoaEthValue = parseFloat(report.eoaBalances.ethBalanceFormatted);
-  console.log(`  ETH Balance: ${eoaEthValue.toFixed(4)} ETH`);
-  
-  const eoaWallet = parseFloat(report.eoaBalances.tokenInWalletFormatted);
-  const eoaAave = parseFloat(report.eoaBalances.tokenInAaveFormatted);
-  const eoaCompound = parseFloat(report.eoaBalances.tokenInCompoundFormatted);
-  const eoaTotal = parseFloat(report.eoaBalances.totalTokenBalanceFormatted);
-  
-  console.log(`  In Wallet:   ${eoaWallet.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  In Aave:     ${eoaAave.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  In Compound: ${eoaCompound.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  ──────────────────────────────────────────────────`);
-  console.log(`  TOTAL:       ${eoaTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log('');
 
-  // Safe Wallet Balances
-  console.log('═══════════════════════════════════════════════════════');
-  console.log('  SAFE WALLET');
-  console.log('═══════════════════════════════════════════════════════');
-  
-  const safeEthValue = parseFloat(report.safeBalances.ethBalanceFormatted);
-  console.log(`  ETH Balance: ${safeEthValue.toFixed(4)} ETH`);
-  
+  const eoaEthValue = parseFloat(report.eoaEthBalanceFormatted);
+  const safeEthValue = parseFloat(report.safeEthBalanceFormatted);
+  console.log(`  EOA:  ${eoaEthValue.toFixed(4)} ETH`);
+  console.log(`  Safe: ${safeEthValue.toFixed(4)} ETH`);
+
   if (safeEthValue < 0.01) {
     console.log('  WARNING: Low ETH balance for gas fees!');
   } else if (safeEthValue < 0.05) {
@@ -211,47 +204,50 @@ function displayReport(report: BalanceReport) {
   } else {
     console.log('  SUCCESS: Sufficient ETH for gas fees');
   }
+  console.log(`  Total ETH: ${(eoaEthValue + safeEthValue).toFixed(4)} ETH`);
   console.log('');
 
-  const safeWallet = parseFloat(report.safeBalances.tokenInWalletFormatted);
-  const safeAave = parseFloat(report.safeBalances.tokenInAaveFormatted);
-  const safeCompound = parseFloat(report.safeBalances.tokenInCompoundFormatted);
-  const safeTotal = parseFloat(report.safeBalances.totalTokenBalanceFormatted);
-
-  console.log(`  In Wallet:   ${safeWallet.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  In Aave:     ${safeAave.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  In Compound: ${safeCompound.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log(`  ──────────────────────────────────────────────────`);
-  console.log(`  TOTAL:       ${safeTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log('');
-
-  // Combined totals
-  console.log('═══════════════════════════════════════════════════════');
-  console.log('  COMBINED TOTALS (EOA + SAFE)');
-  console.log('═══════════════════════════════════════════════════════');
-  
-  const combinedEth = eoaEthValue + safeEthValue;
-  const combinedTotal = eoaTotal + safeTotal;
-  
-  console.log(`  Total ETH:      ${combinedEth.toFixed(4)} ETH`);
-  console.log(`  Total ${report.tokenSymbol}:    ${combinedTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })} ${report.tokenSymbol}`);
-  console.log('');
-
-  // Show Safe wallet current position
-  if (safeTotal > 0) {
-    console.log('  Safe Wallet Position:');
-    if (safeAave > 0 && safeCompound > 0) {
-      console.log('  WARNING: Funds split between Aave and Compound');
-    } else if (safeAave > 0) {
-      console.log('  SUCCESS: All deposited funds in Aave');
-    } else if (safeCompound > 0) {
-      console.log('  SUCCESS: All deposited funds in Compound');
-    } else if (safeWallet > 0) {
-      console.log('  INFO: Funds in wallet (not deposited)');
-      console.log('  INFO: Consider depositing to earn yield');
+  for (const asset of report.assets) {
+    const symbol = asset.tokenSymbol;
+
+    // EOA Balances
+    console.log('═══════════════════════════════════════════════════════');
+    console.log(`  ${symbol} - EOA (EXTERNALLY OWNED ACCOUNT)`);
+    console.log('═══════════════════════════════════════════════════════');
+    displayWalletBalances(asset.eoaBalances, symbol);
+    console.log('');
+
+    // Safe Wallet Balances
+    console.log('═══════════════════════════════════════════════════════');
+    console.log(`  ${symbol} - SAFE WALLET`);
+    console.log('═══════════════════════════════════════════════════════');
+    displayWalletBalances(asset.safeBalances, symbol);
+    console.log('');
+
+    const eoaTotal = parseFloat(asset.eoaBalances.totalTokenBalanceFormatted);
+    const safeWallet = parseFloat(asset.safeBalances.tokenInWalletFormatted);
+    const safeAave = parseFloat(asset.safeBalances.tokenInAaveFormatted);
+    const safeCompound = parseFloat(asset.safeBalances.tokenInCompoundFormatted);
+    const safeTotal = parseFloat(asset.safeBalances.totalTokenBalanceFormatted);
+
+    console.log(`  Total ${symbol} (EOA + Safe): ${formatAmount(eoaTotal + safeTotal)} ${symbol}`);
+
+    // Show Safe wallet current position
+    if (safeTotal > 0) {
+      console.log('  Safe Wallet Position:');
+      if (safeAave > 0 && safeCompound > 0) {
+        console.log('  WARNING: Funds split between Aave and Compound');
+      } else if (safeAave > 0) {
+        console.log('  SUCCESS: All deposited funds in Aave');
+      } else if (safeCompound > 0) {
+        console.log('  SUCCESS: All deposited funds in Compound');
+      } else if (safeWallet > 0) {
+        console.log('  INFO: Funds in wallet (not deposited)');
+        console.log('  INFO: Consider depositing to earn yield');
+      }
     }
+    console.log('');
   }
-  console.log('');
 
   console.log('═══════════════════════════════════════════════════════\n');
 
@@ -259,29 +255,48 @@ function displayReport(report: BalanceReport) {
   console.log('RECOMMENDATIONS:\n');
   
   if (safeEthValue < 0.01) {
-    console.log('  1. URGENT: Add ETH to Safe wallet for gas fees');
+    console.log('  - URGENT: Add ETH to Safe wallet for gas fees');
   }
   
   if (eoaEthValue < 0.05) {
-    console.log('  2. WARNING: Consider adding ETH to EOA for transactions');
+    console.log('  - WARNING: Consider adding ETH to EOA for transactions');
   }
-  
-  if (safeWallet > safeTotal * 0.1 && safeTotal > 0) {
-    console.log('  3. Consider depositing idle Safe wallet balance to earn yield');
-  }
-  
-  if (safeAave > 0 && safeCompound > 0) {
-    console.log('  4. Funds are split - may want to consolidate to one protocol');
+
+  for (const asset of report.assets) {
+    const safeWallet = parseFloat(asset.safeBalances.tokenInWalletFormatted);
+    const safeTotal = parseFloat(asset.safeBalances.totalTokenBalanceFormatted);
+
+    if (safeWallet > safeTotal * 0.1 && safeTotal > 0) {
+      console.log(`  - Consider depositing idle Safe wallet ${asset.tokenSymbol} to earn yield`);
+    }
+
+    if (asset.safeBalances.tokenInAave > 0n && asset.safeBalances.tokenInCompound > 0n) {
+      console.log(`  - ${asset.tokenSymbol} funds are split - may want to consolidate to one protocol`);
+    }
   }
-  
-  if (safeTotal === 0 && eoaTotal === 0) {
-    console.log('  1. Fund your wallets to start earning yield');
-    console.log('  2. See README.md for funding instructions');
+
+  const funded = report.assets.some(asset => asset.eoaBalances.totalTokenBalance > 0n || asset.safeBalances.totalTokenBalance > 0n);
+  if (!funded) {
+    console.log('  - Fund your wallets to start earning yield');
+    console.log('  - See README.md for funding instructions');
   }
   
   console.log('');
 }
 
+/**
+ * Convert one wallet's balances to JSON-safe strings
+ */
+function serializeWalletBalances(balances: WalletBalances) {
+  return {
+    ...balances,
+    tokenInWallet: balances.tokenInWallet.toString(),
+    tokenInAave: balances.tokenInAave.toString(),
+    tokenInCompound: balances.tokenInCompound.toString(),
+    totalTokenBalance: balances.totalTokenBalance.toString()
+  };
+}
+
 /**
  * Export balance data to JSON
  */
@@ -289,22 +304,13 @@ function exportToJSON(report: BalanceReport, filename: string = 'balance-report.
   const fs = require('fs');
   const data = {
     ...report,
-    eoaBalances: {
-      ...report.eoaBalances,
-      ethBalance: report.eoaBalances.ethBalance.toString(),
-      tokenInWallet: report.eoaBalances.tokenInWallet.toString(),
-      tokenInAave: report.eoaBalances.tokenInAave.toString(),
-      tokenInCompound: report.eoaBalances.tokenInCompound.toString(),
-      totalTokenBalance: report.eoaBalances.totalTokenBalance.toString()
-    },
-    safeBalances: {
-      ...report.safeBalances,
-      ethBalance: report.safeBalances.ethBalance.toString(),
-      tokenInWallet: report.safeBalances.tokenInWallet.toString(),
-      tokenInAave: report.safeBalances.tokenInAave.toString(),
-      tokenInCompound: report.safeBalances.tokenInCompound.toString(),
-      totalTokenBalance: report.safeBalances.totalTokenBalance.toString()
-    }
+    eoaEthBalance: report.eoaEthBalance.toString(),
+    safeEthBalance: report.safeEthBalance.toString(),
+    assets: report.assets.map(asset => ({
+      ...asset,
+      eoaBalances: serializeWalletBalances(asset.eoaBalances),
+      safeBalances: serializeWalletBalances(asset.safeBalances)
+    }))
   };
   
   fs.writeFileSync(filename, JSON.stringify(data, null, 2));
@@ -329,10 +335,12 @@ async function main() {
     // Optional: Show only totals if --summary flag is passed
     if (process.argv.includes('--summary')) {
       console.log('QUICK SUMMARY:');
-      const totalEth = parseFloat(report.eoaBalances.ethBalanceFormatted) + parseFloat(report.safeBalances.ethBalanceFormatted);
-      const totalTokens = parseFloat(report.eoaBalances.totalTokenBalanceFormatted) + parseFloat(report.safeBalances.totalTokenBalanceFormatted);
+      const totalEth = parseFloat(report.eoaEthBalanceFormatted) + parseFloat(report.safeEthBalanceFormatted);
       console.log(`   Total ETH: ${totalEth.toFixed(4)} ETH`);
-      console.log(`   Total ${report.tokenSymbol}: ${totalTokens.toLocaleString()} ${report.tokenSymbol}`);
+      for (const asset of report.assets) {
+        const totalTokens = parseFloat(asset.eoaBalances.totalTokenBalanceFormatted) + parseFloat(asset.safeBalances.totalTokenBalanceFormatted);
+        console.log(`   Total ${asset.tokenSymbol}: ${totalTokens.toLocaleString()} ${asset.tokenSymbol}`);
+      }
       console.log('');
     }
 
@@ -342,7 +350,7 @@ async function main() {
     console.error('   - Check that your .env file is configured correctly');
     console.error('   - Verify PRIVATE_KEY is set');
     console.error('   - Verify SAFE_WALLET_ADDRESS is set');
-    console.error('   - Verify TOKEN_ADDRESS is set');
+    console.error('   - Verify TOKEN_ADDRESS (and ASSETS, if set) are correct for the network');
     console.error('   - Ensure RPC_URL is accessible');
     console.error('');
     process.exit(1);
@@ -350,7 +358,7 @@ async function main() {
 }
 
 // Export for use in other modules
-export { checkBalances, BalanceReport };
+export { checkBalances, collectBalanceMetrics, BalanceReport };
 
 // Run if executed directly
 if (require.main === module) {
@@ -0,0 +1,701 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as dotenv from 'dotenv';
+import { NETWORKS, NetworkConfig } from './contracts/networks';
+import { MeteredJsonRpcProvider } from './metrics';
+
+dotenv.config();
+
+/**
+ * Optimizer configuration
+ * One typed config shared by every entry point, resolved in this order
+ * (later wins):
+ *
+ *   1. built-in defaults
+ *   2. the selected network profile (addresses, RPC, default token), built from
+ *      the chain registry in contracts/networks.ts
+ *   3. optimizer.config.json (or the file in OPTIMIZER_CONFIG)
+ *   4. environment variables, e.g. RPC_URL or MIN_YIELD_DIFFERENCE
+ *
+ * Secrets (PRIVATE_KEY, TRIGGERX_API_KEY, signer keys, API_AUTH_TOKEN, API_HMAC_SECRET)
+ * are only read from the environment
+ */
+
+export interface NetworkContracts {
+  aavePool: string;
+  aaveDataProvider: string;
+  compoundComet?: string; // Comet lending tokenAddress; without one, Compound is not used for it
+  multisendCallOnly: string;
+  weth?: string;
+  safeModule?: string; // TriggerX Safe module, defaults to the SDK's address for the chain
+  taskExecutionHub?: string; // expected TaskExecutionHub of the module
+}
+
+export interface NetworkProfile {
+  chainId: number;
+  rpcUrl: string;
+  tokenAddress: string;
+  contracts: NetworkContracts;
+}
+
+export interface OptimizerConfig {
+  network: string;
+  chainId: number;
+  rpcUrl: string;
+  safeAddress?: string;
+  tokenAddress: string;
+  assets?: string[]; // tokens optimized side by side, each with its own decision (defaults to [tokenAddress])
+  contracts: NetworkContracts;
+  thresholds: {
+    minYieldDifference: number; // basis points
+    exitYieldDifference?: number; // basis points, follows minYieldDifference when unset
+    confirmationObservations: number;
+    minDwellSeconds: number;
+    observationSpacingSeconds: number;
+    decisionRateWindow: number; // seconds of history averaged into decision rates (0 = spot)
+  };
+  strategy: {
+    allocation: 'best' | 'capped' | 'yield-weighted';
+    maxProtocolWeight: number; // basis points
+    minRebalanceDrift: number; // basis points
+  };
+  costs: {
+    horizonDays: number;
+    jobFeeEth: string; // ETH, priced in each asset like gas
+    withdrawSlippageBps: number;
+    gasPerTransaction: number;
+    moduleGasOverhead: number;
+    ethPrices?: Record<string, string>; // token address -> token per ETH, when the Aave oracle is unavailable
+  };
+  job: {
+    monitorUrl?: string;
+    dynamicScriptUrl?: string;
+    jobOwner?: string;
+    checkInterval: number; // seconds
+    jobDuration: number; // seconds
+    timezone: string;
+    autotopupTG: boolean;
+    renewWindow: number; // seconds before expiry when `jobs renew` recreates a job
+  };
+  simulation: {
+    skip: boolean;
+  };
+  monitor: {
+    cacheTtlSeconds: number; // api/monitor reuses a response this long (0 = no cache)
+    maxBlockAgeSeconds: number; // reject data when the RPC's latest block is older (0 = off)
+    maxRateAgeSeconds: number; // reject Aave reserves not updated for this long (0 = off)
+    maxApy: number; // basis points; higher APYs are treated as bad data
+    safes?: string[]; // Safes api/monitor also answers for with ?safe= (each gets its own state file)
+  };
+  api: {
+    allowOrigin: string; // Access-Control-Allow-Origin of the API endpoints
+    rateLimit: number; // requests per client IP and window (0 = unlimited)
+    rateLimitWindowSeconds: number;
+    trustProxy: boolean; // take the client IP from X-Forwarded-For (always on Vercel)
+    logRequests: boolean; // one JSON log line per request
+  };
+  server: {
+    host: string; // interface `npm run serve` listens on
+    port: number;
+  };
+  files: {
+    optimizerState: string;
+    yieldHistory: string;
+    jobs: string;
+    safeProposal: string;
+  };
+  backtest: {
+    gasPriceGwei: string;
+  };
+}
+
+/**
+ * Network profile for a registry entry
+ * Markets default to the network's DEFAULT_TOKEN; on a chain without a Comet for it
+ * contracts.compoundComet stays unset and only Aave is used, unless one is configured
+ */
+function profileFromRegistry(network: NetworkConfig, rpcUrl: string = network.RPC_URL): NetworkProfile {
+  return {
+    chainId: network.CHAIN_ID,
+    rpcUrl,
+    tokenAddress: network.TOKENS[network.DEFAULT_TOKEN],
+    contracts: {
+      aavePool: network.AAVE.POOL,
+      aaveDataProvider: network.AAVE.DATA_PROVIDER,
+      compoundComet: network.COMPOUND[`${network.DEFAULT_TOKEN}_COMET`],
+      multisendCallOnly: network.MULTISEND_CALL_ONLY,
+      weth: network.TOKENS.WETH
+    }
+  };
+}
+
+export const NETWORK_PROFILES: Record<string, NetworkProfile> = {
+  ...Object.fromEntries(Object.values(NETWORKS).map(network => [network.NAME, profileFromRegistry(network)])),
+  // Local anvil fork of Arbitrum (see scripts/test-fork.sh)
+  fork: profileFromRegistry(NETWORKS[42161], 'http://127.0.0.1:8545')
+};
+
+const DEFAULT_NETWORK = 'arbitrum';
+
+const DEFAULTS = {
+  thresholds: {
+    minYieldDifference: 50,
+    confirmationObservations: 1,
+    minDwellSeconds: 0,
+    observationSpacingSeconds: 60,
+    decisionRateWindow: 0
+  },
+  strategy: {
+    allocation: 'best',
+    maxProtocolWeight: 10000,
+    minRebalanceDrift: 100
+  },
+  costs: {
+    horizonDays: 30,
+    jobFeeEth: '0',
+    withdrawSlippageBps: 0,
+    gasPerTransaction: 250000,
+    moduleGasOverhead: 100000
+  },
+  job: {
+    checkInterval: 3600, // 1 hour
+    jobDuration: 2592000, // 30 days
+    timezone: 'UTC',
+    autotopupTG: true,
+    renewWindow: 86400 // 1 day
+  },
+  simulation: {
+    skip: false
+  },
+  monitor: {
+    cacheTtlSeconds: 30,
+    maxBlockAgeSeconds: 300, // 5 minutes
+    maxRateAgeSeconds: 86400, // 1 day
+    maxApy: 5000 // 50%
+  },
+  api: {
+    allowOrigin: '*',
+    rateLimit: 60,
+    rateLimitWindowSeconds: 60,
+    trustProxy: false,
+    logRequests: true
+  },
+  server: {
+    host: '127.0.0.1',
+    port: 3000
+  },
+  files: {
+    optimizerState: '.optimizer-state.json',
+    yieldHistory: '.yield-history.jsonl',
+    jobs: '.triggerx-jobs.json',
+    safeProposal: '.safe-proposal.json'
+  },
+  backtest: {
+    gasPriceGwei: '0.01'
+  }
+};
+
+type FieldType = 'string' | 'address' | 'addresses' | 'url' | 'integer' | 'number' | 'decimal' | 'boolean' | 'tokens' | 'prices';
+
+interface FieldSpec {
+  type: FieldType;
+  env?: string; // environment variable overriding the setting
+  required?: boolean;
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+}
+
+// Every setting, by its path in OptimizerConfig
+const SCHEMA: Record<string, FieldSpec> = {
+  'network': { type: 'string', env: 'NETWORK', required: true },
+  'chainId': { type: 'integer', env: 'CHAIN_ID', required: true, min: 1 },
+  'rpcUrl': { type: 'url', env: 'RPC_URL', required: true },
+  'safeAddress': { type: 'address', env: 'SAFE_WALLET_ADDRESS' },
+  'tokenAddress': { type: 'address', env: 'TOKEN_ADDRESS', required: true },
+  'assets': { type: 'tokens', env: 'ASSETS' },
+  'contracts.aavePool': { type: 'address', env: 'AAVE_POOL_ADDRESS', required: true },
+  'contracts.aaveDataProvider': { type: 'address', env: 'AAVE_DATA_PROVIDER_ADDRESS', required: true },
+  'contracts.compoundComet': { type: 'address', env: 'COMPOUND_COMET_ADDRESS' },
+  'contracts.multisendCallOnly': { type: 'address', env: 'MULTISEND_CALL_ONLY_ADDRESS', required: true },
+  'contracts.weth': { type: 'address', env: 'WETH_ADDRESS' },
+  'contracts.safeModule': { type: 'address', env: 'SAFE_MODULE_ADDRESS' },
+  'contracts.taskExecutionHub': { type: 'address', env: 'TASK_EXECUTION_HUB_ADDRESS' },
+  'thresholds.minYieldDifference': { type: 'integer', env: 'MIN_YIELD_DIFFERENCE', required: true, min: 0 },
+  'thresholds.exitYieldDifference': { type: 'integer', env: 'EXIT_YIELD_DIFFERENCE', min: 0 },
+  'thresholds.confirmationObservations': { type: 'integer', env: 'CONFIRMATION_OBSERVATIONS', required: true, min: 1 },
+  'thresholds.minDwellSeconds': { type: 'integer', env: 'MIN_DWELL_SECONDS', required: true, min: 0 },
+  'thresholds.observationSpacingSeconds': { type: 'integer', env: 'OBSERVATION_SPACING_SECONDS', required: true, min: 0 },
+  'thresholds.decisionRateWindow': { type: 'integer', env: 'DECISION_RATE_WINDOW', required: true, min: 0 },
+  'strategy.allocation': { type: 'string', env: 'ALLOCATION_STRATEGY', required: true, values: ['best', 'capped', 'yield-weighted'] },
+  'strategy.maxProtocolWeight': { type: 'integer', env: 'MAX_PROTOCOL_WEIGHT', required: true, min: 1, max: 10000 },
+  'strategy.minRebalanceDrift': { type: 'integer', env: 'MIN_REBALANCE_DRIFT', required: true, min: 0, max: 10000 },
+  'costs.horizonDays': { type: 'number', env: 'REBALANCE_HORIZON_DAYS', required: true, min: 0 },
+  'costs.jobFeeEth': { type: 'decimal', env: 'TRIGGERX_JOB_FEE_ETH', required: true },
+  'costs.withdrawSlippageBps': { type: 'integer', env: 'WITHDRAW_SLIPPAGE_BPS', required: true, min: 0, max: 10000 },
+  'costs.gasPerTransaction': { type: 'integer', env: 'REBALANCE_GAS_PER_TX', required: true, min: 0 },
+  'costs.moduleGasOverhead': { type: 'integer', env: 'SAFE_MODULE_GAS_OVERHEAD', required: true, min: 0 },
+  'costs.ethPrices': { type: 'prices', env: 'ETH_PRICES' },
+  'job.monitorUrl': { type: 'url', env: 'MONITOR_URL' },
+  'job.dynamicScriptUrl': { type: 'url', env: 'DYNAMIC_TRANSACTIONS_SCRIPT_URL' },
+  'job.jobOwner': { type: 'address', env: 'JOB_OWNER_ADDRESS' },
+  'job.checkInterval': { type: 'integer', env: 'CHECK_INTERVAL', required: true, min: 1 },
+  'job.jobDuration': { type: 'integer', env: 'JOB_DURATION', required: true, min: 1 },
+  'job.timezone': { type: 'string', env: 'TIMEZONE', required: true },
+  'job.autotopupTG': { type: 'boolean', env: 'AUTOTOPUP_TG', required: true },
+  'job.renewWindow': { type: 'integer', env: 'JOB_RENEW_WINDOW', required: true, min: 0 },
+  'simulation.skip': { type: 'boolean', env: 'SKIP_SIMULATION', required: true },
+  'monitor.cacheTtlSeconds': { type: 'integer', env: 'MONITOR_CACHE_TTL', required: true, min: 0 },
+  'monitor.maxBlockAgeSeconds': { type: 'integer', env: 'MONITOR_MAX_BLOCK_AGE', required: true, min: 0 },
+  'monitor.maxRateAgeSeconds': { type: 'integer', env: 'MONITOR_MAX_RATE_AGE', required: true, min: 0 },
+  'monitor.maxApy': { type: 'integer', env: 'MONITOR_MAX_APY', required: true, min: 1 },
+  'monitor.safes': { type: 'addresses', env: 'MONITOR_SAFES' },
+  'api.allowOrigin': { type: 'string', env: 'API_ALLOW_ORIGIN', required: true },
+  'api.rateLimit': { type: 'integer', env: 'API_RATE_LIMIT', required: true, min: 0 },
+  'api.rateLimitWindowSeconds': { type: 'integer', env: 'API_RATE_LIMIT_WINDOW', required: true, min: 1 },
+  'api.trustProxy': { type: 'boolean', env: 'API_TRUST_PROXY', required: true },
+  'api.logRequests': { type: 'boolean', env: 'API_LOG_REQUESTS', required: true },
+  'server.host': { type: 'string', env: 'SERVER_HOST', required: true },
+  'server.port': { type: 'integer', env: 'PORT', required: true, min: 1, max: 65535 },
+  'files.optimizerState': { type: 'string', env: 'OPTIMIZER_STATE_FILE', required: true },
+  'files.yieldHistory': { type: 'string', env: 'YIELD_HISTORY_FILE', required: true },
+  'files.jobs': { type: 'string', env: 'TRIGGERX_JOBS_FILE', required: true },
+  'files.safeProposal': { type: 'string', env: 'SAFE_PROPOSAL_FILE', required: true },
+  'backtest.gasPriceGwei': { type: 'decimal', env: 'BACKTEST_GAS_PRICE_GWEI', required: true }
+};
+
+// Settings a network profile may define (relative to the profile)
+const PROFILE_FIELDS = ['chainId', 'rpcUrl', 'tokenAddress', ...Object.keys(SCHEMA).filter(key => key.startsWith('contracts.'))];
+
+/**
+ * Path of the config file
+ */
+export function getConfigFile(): string {
+  return process.env.OPTIMIZER_CONFIG || 'optimizer.config.json';
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Leaf paths of a nested object (e.g. 'thresholds.minYieldDifference')
+ * Settings whose value is an object (e.g. 'costs.ethPrices') are leaves
+ */
+function leafPaths(value: Record<string, any>, prefix: string = ''): string[] {
+  return Object.entries(value).flatMap(([key, child]) =>
+    isPlainObject(child) && !SCHEMA[`${prefix}${key}`] ? leafPaths(child, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+function getPath(target: Record<string, any>, path: string): any {
+  return path.split('.').reduce((node, key) => (node === undefined ? undefined : node[key]), target as any);
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Check and convert one setting
+ * Environment values arrive as strings; the file may use native JSON types
+ * @returns Converted value, or an error message
+ */
+function coerce(raw: unknown, spec: FieldSpec): { value?: unknown; error?: string } {
+  const text = typeof raw === 'string' ? raw.trim() : raw;
+
+  switch (spec.type) {
+    case 'integer':
+    case 'number': {
+      const value = typeof text === 'number' ? text : (typeof text === 'string' && text !== '' ? Number(text) : NaN);
+      if (!Number.isFinite(value) || (spec.type === 'integer' && !Number.isInteger(value))) {
+        return { error: `expected ${spec.type === 'integer' ? 'an integer' : 'a number'}` };
+      }
+      if (spec.min !== undefined && value < spec.min) return { error: `must be at least ${spec.min}` };
+      if (spec.max !== undefined && value > spec.max) return { error: `must be at most ${spec.max}` };
+      return { value };
+    }
+
+    case 'decimal': {
+      const value = typeof text === 'number' ? String(text) : text;
+      if (typeof value !== 'string' || !/^\d+(\.\d+)?$/.test(value)) {
+        return { error: 'expected a non-negative decimal amount (e.g. "0.05")' };
+      }
+      return { value };
+    }
+
+    case 'boolean': {
+      if (typeof text === 'boolean') return { value: text };
+      if (text === 'true' || text === '1') return { value: true };
+      if (text === 'false' || text === '0') return { value: false };
+      return { error: 'expected true or false' };
+    }
+
+    case 'address': {
+      if (typeof text !== 'string' || !ethers.isAddress(text)) {
+        return { error: 'expected a 0x-prefixed 20-byte address (with a valid checksum if mixed-case)' };
+      }
+      return { value: ethers.getAddress(text) };
+    }
+
+    case 'addresses': {
+      // JSON array in the file, comma-separated list in the environment
+      const items = Array.isArray(text) ? text : (typeof text === 'string' ? text.split(',') : null);
+      if (!items || items.some(item => typeof item !== 'string' || !ethers.isAddress(item.trim()))) {
+        return { error: 'expected a list of 0x-prefixed 20-byte addresses' };
+      }
+      return { value: items.map(item => ethers.getAddress(item.trim())) };
+    }
+
+    case 'url': {
+      if (typeof text !== 'string' || !/^(https?|wss?):\/\/\S+$/.test(text)) {
+        return { error: 'expected an http(s) or ws(s) URL' };
+      }
+      return { value: text };
+    }
+
+    case 'tokens': {
+      // JSON array in the file, comma-separated list in the environment (e.g. "USDC,USDT,DAI")
+      const items = Array.isArray(text) ? text : (typeof text === 'string' ? text.split(',') : null);
+      if (!items || items.length === 0 || items.some(item => typeof item !== 'string' || item.trim() === '')) {
+        return { error: 'expected a list of token symbols or addresses (e.g. ["USDC", "USDT"])' };
+      }
+      const value: string[] = [];
+      for (const item of items.map(entry => entry.trim())) {
+        if (item.startsWith('0x') && !ethers.isAddress(item)) {
+          return { error: `${item} is not a valid address` };
+        }
+        value.push(item.startsWith('0x') ? ethers.getAddress(item) : item.toUpperCase());
+      }
+      return { value };
+    }
+
+    case 'prices': {
+      // JSON object in the file, comma-separated symbol:price pairs in the environment (e.g. "USDC:3000,WETH:1")
+      const entries = isPlainObject(text)
+        ? Object.entries(text)
+        : (typeof text === 'string' ? text.split(',').map(pair => pair.split(':')) : null);
+      if (!entries || entries.length === 0 || entries.some(entry => entry.length !== 2)) {
+        return { error: 'expected token symbols or addresses with their price per ETH (e.g. {"USDC": "3000", "WETH": "1"})' };
+      }
+      const value: Record<string, string> = {};
+      for (const [rawToken, rawPrice] of entries) {
+        const token = String(rawToken).trim();
+        const price = typeof rawPrice === 'number' ? String(rawPrice) : String(rawPrice).trim();
+        if (token === '' || (token.startsWith('0x') && !ethers.isAddress(token))) {
+          return { error: `${token || 'empty token'} is not a token symbol or valid address` };
+        }
+        if (!/^\d+(\.\d+)?$/.test(price) || !/[1-9]/.test(price)) {
+          return { error: `price of ${token} must be a positive decimal amount` };
+        }
+        value[token.startsWith('0x') ? ethers.getAddress(token) : token.toUpperCase()] = price;
+      }
+      return { value };
+    }
+
+    case 'string': {
+      if (typeof text !== 'string' || text === '') {
+        return { error: 'expected a non-empty string' };
+      }
+      if (spec.values && !spec.values.includes(text)) {
+        return { error: `expected one of: ${spec.values.join(', ')}` };
+      }
+      return { value: text };
+    }
+  }
+}
+
+/**
+ * Read the config file, if any
+ * @throws If the file is not valid JSON
+ */
+function readConfigFile(file: string): Record<string, any> {
+  if (!fs.existsSync(file)) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Invalid configuration: ${file} is not valid JSON (${error.message})`);
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Invalid configuration: ${file} must contain a JSON object`);
+  }
+  return parsed;
+}
+
+export interface ResolvedConfig {
+  config: OptimizerConfig;
+  sources: Record<string, string>; // where each setting came from
+}
+
+/**
+ * Resolve and validate the configuration
+ * All problems are reported at once, each with the setting and where its value came from
+ * @param file Config file (defaults to OPTIMIZER_CONFIG or optimizer.config.json)
+ * @param detectedNetwork Profile matching the RPC's chain, when no network was chosen explicitly
+ * @throws If any setting is missing or invalid
+ */
+export function resolveConfig(file: string = getConfigFile(), detectedNetwork?: string): ResolvedConfig {
+  const fileConfig = readConfigFile(file);
+  const errors: string[] = [];
+
+  // Unknown keys are most likely typos: reject them rather than silently ignore them
+  const { networks: fileNetworks = {}, ...fileSettings } = fileConfig;
+  for (const path of leafPaths(fileSettings)) {
+    if (!SCHEMA[path]) errors.push(`${path} (${file}): unknown setting`);
+  }
+  if (!isPlainObject(fileNetworks)) {
+    errors.push(`networks (${file}): expected an object of network profiles`);
+  } else {
+    for (const [name, profile] of Object.entries(fileNetworks)) {
+      for (const path of isPlainObject(profile) ? leafPaths(profile) : ['']) {
+        if (!PROFILE_FIELDS.includes(path)) errors.push(`networks.${name}${path ? `.${path}` : ''} (${file}): unknown profile setting`);
+      }
+    }
+  }
+
+  const profiles: Record<string, Record<string, any>> = { ...NETWORK_PROFILES };
+  if (isPlainObject(fileNetworks)) {
+    for (const [name, profile] of Object.entries(fileNetworks)) {
+      profiles[name] = { ...profiles[name], ...profile, contracts: { ...profiles[name]?.contracts, ...profile?.contracts } };
+    }
+  }
+
+  // Pick the profile: NETWORK, the file's "network", the profile matching CHAIN_ID, then the default
+  const chainIdEnv = process.env.CHAIN_ID;
+  const chainIdProfile = Object.keys(profiles).find(name => chainIdEnv && String(profiles[name].chainId) === chainIdEnv);
+  const [network, networkSource]: [string, string] =
+    detectedNetwork ? [detectedNetwork, 'chain ID reported by the RPC']
+    : process.env.NETWORK ? [process.env.NETWORK, 'env NETWORK']
+    : fileSettings.network ? [fileSettings.network, file]
+    : chainIdProfile ? [chainIdProfile, 'env CHAIN_ID']
+    : [DEFAULT_NETWORK, 'default'];
+  if (!profiles[network]) {
+    throw new Error(`Invalid configuration: unknown network "${network}" (available: ${Object.keys(profiles).join(', ')})`);
+  }
+
+  // Layer defaults, profile, file and environment, remembering where each value came from
+  const merged: Record<string, any> = {};
+  const sources: Record<string, string> = {};
+  const layer = (values: Record<string, any>, source: string) => {
+    for (const path of leafPaths(values)) {
+      const value = getPath(values, path);
+      if (SCHEMA[path] && value !== undefined) {
+        setPath(merged, path, value);
+        sources[path] = source;
+      }
+    }
+  };
+  layer(DEFAULTS, 'default');
+  layer(profiles[network], `network profile "${network}"`);
+  layer({ ...fileSettings, network: undefined }, file);
+  setPath(merged, 'network', network);
+  sources.network = networkSource;
+  for (const [path, spec] of Object.entries(SCHEMA)) {
+    const value = spec.env && path !== 'network' ? process.env[spec.env] : undefined;
+    // Empty variables (e.g. ETH_PRICES= in env.example) count as unset
+    if (value !== undefined && value.trim() !== '') {
+      setPath(merged, path, value);
+      sources[path] = `env ${spec.env}`;
+    }
+  }
+
+  for (const [path, spec] of Object.entries(SCHEMA)) {
+    const raw = getPath(merged, path);
+    if (raw === undefined || raw === null) {
+      if (spec.required) {
+        errors.push(`${path}: missing (set ${spec.env ? `${spec.env} or ` : ''}"${path}" in ${file})`);
+      }
+      continue;
+    }
+
+    const { value, error } = coerce(raw, spec);
+    if (error) {
+      errors.push(`${path} (${sources[path]}): ${error}, got ${JSON.stringify(raw)}`);
+    } else {
+      setPath(merged, path, value);
+    }
+  }
+
+  // Cross-field rules
+  if (merged.chainId !== profiles[network].chainId && !errors.some(error => error.startsWith('chainId'))) {
+    errors.push(
+      `chainId (${sources.chainId}): ${merged.chainId} does not match network "${network}" (chain ${profiles[network].chainId}); ` +
+      `set NETWORK to the profile for chain ${merged.chainId}`
+    );
+  }
+
+  // Assets may be registry symbols of the selected chain; store them as addresses
+  if (Array.isArray(merged.assets)) {
+    const tokens: Record<string, string> = NETWORKS[merged.chainId]?.TOKENS ?? {};
+    const unknown = merged.assets.filter((item: string) => !item.startsWith('0x') && !tokens[item]);
+    if (unknown.length > 0) {
+      errors.push(
+        `assets (${sources.assets}): ${unknown.join(', ')} not in the token registry of network "${network}" ` +
+        `(known: ${Object.keys(tokens).join(', ') || 'none'}); use token addresses instead`
+      );
+    }
+    const addresses: string[] = merged.assets.map((item: string) => (item.startsWith('0x') || !tokens[item] ? item : ethers.getAddress(tokens[item])));
+    const duplicate = addresses.find((address, i) => addresses.indexOf(address) !== i);
+    if (duplicate) {
+      errors.push(`assets (${sources.assets}): ${duplicate} is listed twice`);
+    }
+    merged.assets = addresses;
+  }
+
+  // ETH prices may be keyed by registry symbols too; store them by address
+  if (isPlainObject(merged.costs?.ethPrices)) {
+    const tokens: Record<string, string> = NETWORKS[merged.chainId]?.TOKENS ?? {};
+    const prices: Record<string, string> = {};
+    for (const [token, price] of Object.entries<string>(merged.costs.ethPrices)) {
+      if (!token.startsWith('0x') && !tokens[token]) {
+        errors.push(
+          `costs.ethPrices (${sources['costs.ethPrices']}): ${token} not in the token registry of network "${network}"; ` +
+          'use its token address instead'
+        );
+        continue;
+      }
+      prices[token.startsWith('0x') ? token : ethers.getAddress(tokens[token])] = price;
+    }
+    merged.costs.ethPrices = prices;
+  }
+
+  const thresholds = merged.thresholds ?? {};
+  if (typeof thresholds.exitYieldDifference === 'number' && thresholds.exitYieldDifference > thresholds.minYieldDifference) {
+    errors.push(
+      `thresholds.exitYieldDifference (${sources['thresholds.exitYieldDifference']}): ` +
+      `${thresholds.exitYieldDifference} must not exceed thresholds.minYieldDifference (${thresholds.minYieldDifference})`
+    );
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  return { config: merged as OptimizerConfig, sources };
+}
+
+let cachedConfig: ResolvedConfig | undefined;
+
+/**
+ * Load the configuration (resolved once per process)
+ * @throws If any setting is missing or invalid
+ */
+export function loadConfig(): OptimizerConfig {
+  if (!cachedConfig) {
+    cachedConfig = resolveConfig();
+  }
+  return cachedConfig.config;
+}
+
+export interface Connection {
+  config: OptimizerConfig;
+  provider: ethers.JsonRpcProvider;
+}
+
+let connection: Promise<Connection> | undefined;
+
+/**
+ * Connect to the configured RPC and make sure it serves the configured network
+ * When no network was chosen (no NETWORK, file "network" or CHAIN_ID) but the RPC URL
+ * was, the network is picked from the chain ID the RPC reports. Checked once per process
+ * @throws If the RPC is on another chain than the configured network
+ */
+export function connect(): Promise<Connection> {
+  if (!connection) {
+    connection = connectNetwork().catch(error => {
+      connection = undefined;
+      throw error;
+    });
+  }
+  return connection;
+}
+
+async function connectNetwork(): Promise<Connection> {
+  loadConfig();
+  const { config, sources } = cachedConfig!;
+  const provider = new MeteredJsonRpcProvider(config.rpcUrl);
+
+  let chainId: bigint;
+  try {
+    chainId = (await provider.getNetwork()).chainId;
+  } catch (error: any) {
+    provider.destroy();
+    throw new Error(`Cannot reach RPC ${config.rpcUrl}: ${error.shortMessage || error.message}`);
+  }
+  if (chainId === BigInt(config.chainId)) {
+    return { config, provider };
+  }
+
+  const detected = NETWORKS[Number(chainId)];
+  const rpcFromProfile = sources.rpcUrl.startsWith('network profile');
+  if (sources.network === 'default' && !rpcFromProfile && detected) {
+    cachedConfig = resolveConfig(getConfigFile(), detected.NAME);
+    console.log(`INFO: RPC is on chain ${chainId}; using network "${detected.NAME}"`);
+    return { config: cachedConfig.config, provider };
+  }
+
+  provider.destroy();
+  throw new Error(
+    `RPC ${config.rpcUrl} is on chain ${chainId}${detected ? ` (${detected.NAME})` : ''}, ` +
+    `but network "${config.network}" is chain ${config.chainId} (${sources.network}). ` +
+    `Point RPC_URL at ${config.network}${detected ? ` or set NETWORK=${detected.NAME}` : ''}`
+  );
+}
+
+/**
+ * Get an optional setting that the calling script needs
+ * @param value Setting value from the loaded config
+ * @param path Setting path, for the error message
+ * @throws If the setting is not configured
+ */
+export function requireSetting<T>(value: T | undefined, path: string): T {
+  if (value === undefined || value === null) {
+    const env = SCHEMA[path]?.env;
+    throw new Error(`${path} is not configured (set ${env ? `${env} or ` : ''}"${path}" in ${getConfigFile()})`);
+  }
+  return value;
+}
+
+async function main() {
+  // --rpc also checks the RPC serves the configured chain (and picks the network from it)
+  if (process.argv.includes('--rpc')) {
+    const { provider } = await connect();
+    provider.destroy();
+  }
+  const { config, sources } = cachedConfig ?? resolveConfig();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(config, null, 2));
+    return;
+  }
+
+  console.log(' Optimizer Configuration\n');
+  console.log(` File: ${getConfigFile()}${fs.existsSync(getConfigFile()) ? '' : ' (not found, using defaults and environment)'}`);
+  console.log(` Network: ${config.network} (chain ${config.chainId})\n`);
+  for (const path of Object.keys(SCHEMA)) {
+    const value = getPath(config, path);
+    if (value !== undefined) {
+      console.log(`   ${path} = ${JSON.stringify(value)}  [${sources[path]}]`);
+    }
+  }
+  console.log('\nSUCCESS: Configuration is valid');
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
@@ -1,22 +1,48 @@
 import { ethers } from 'ethers';
-import * as dotenv from 'dotenv';
+import { LendingProtocolAdapter } from './adapter';
+import { RAY, aaveSupplyRate } from '../rates';
+import { loadConfig } from '../config';
 
-dotenv.config();
+// Protocol addresses - from the network profile, overridable in the config file or environment
+// Read on use, as the network may be picked from the RPC's chain ID (see connect)
+export function getAavePoolAddress(): string {
+  return loadConfig().contracts.aavePool;
+}
 
-// Protocol addresses - configurable via environment variables
-// Defaults to Sepolia, can be overridden for Arbitrum or other networks
-export const AAVE_POOL_ADDRESS = process.env.AAVE_POOL_ADDRESS || '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951';  
-export const AAVE_DATA_PROVIDER_ADDRESS = process.env.AAVE_DATA_PROVIDER_ADDRESS || '0x3e9708d80f7B3e43118013075F7e95CE3AB31F31';
+export function getAaveDataProviderAddress(): string {
+  return loadConfig().contracts.aaveDataProvider;
+}
 
 export const AAVE_POOL_ABI = [
   'function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)',
-  'function withdraw(address asset, uint256 amount, address to) returns (uint256)'
+  'function withdraw(address asset, uint256 amount, address to) returns (uint256)',
+  'function ADDRESSES_PROVIDER() view returns (address)',
+  'function getReserveData(address asset) view returns (tuple(tuple(uint256 data) configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))'
+];
+
+export const AAVE_ADDRESSES_PROVIDER_ABI = [
+  'function getPriceOracle() view returns (address)'
+];
+
+export const AAVE_ORACLE_ABI = [
+  'function getAssetPrice(address asset) view returns (uint256)'
+];
+
+// Interest rate strategy getters: v3.0/v3.1 expose per-strategy constants,
+// v3.2+ (DefaultReserveInterestRateStrategyV2) stores parameters per reserve
+export const AAVE_RATE_STRATEGY_ABI = [
+  'function getOptimalUsageRatio() view returns (uint256)',
+  'function getBaseVariableBorrowRate() view returns (uint256)',
+  'function getVariableRateSlope1() view returns (uint256)',
+  'function getVariableRateSlope2() view returns (uint256)',
+  'function getInterestRateData(address reserve) view returns (tuple(uint256 optimalUsageRatio, uint256 baseVariableBorrowRate, uint256 variableRateSlope1, uint256 variableRateSlope2))'
 ];
 
 export const AAVE_DATA_PROVIDER_ABI = [
   'function getReserveData(address asset) view returns (uint256 unbacked, uint256 accruedToTreasuryScaled, uint256 totalAToken, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)',
   'function getUserReserveData(address asset, address user) view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)',
   'function getReserveTokensAddresses(address asset) view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)',
+  'function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)',
   'function getAllReservesTokens() view returns (tuple(string symbol, address tokenAddress)[])'
 ];
 
@@ -29,180 +55,297 @@ export const ERC20_ABI = [
   'function decimals() view returns (uint8)'
 ];
 
-export async function getAaveAPY(provider: ethers.Provider, tokenAddress: string): Promise<number> {
+/**
+ * Find the aToken of a reserve
+ * @returns aToken address, or null when the token has no reserve (the data provider answers the zero address)
+ * @throws If the data provider cannot be read, e.g. no contract at its address on this network
+ */
+async function findATokenAddress(dataProvider: ethers.Contract, tokenAddress: string): Promise<string | null> {
+  let reserveTokens;
   try {
-    const dataProvider = new ethers.Contract(
-      AAVE_DATA_PROVIDER_ADDRESS,
-      AAVE_DATA_PROVIDER_ABI,
-      provider
-    );
-    
-    // First check if the reserve exists
-    try {
-      const reserveTokens = await dataProvider.getReserveTokensAddresses(tokenAddress);
-      const aTokenAddress = Array.isArray(reserveTokens) ? reserveTokens[0] : (reserveTokens as any).aTokenAddress || reserveTokens[0];
-      
-      if (!aTokenAddress || aTokenAddress === ethers.ZeroAddress) {
-        console.warn('WARNING: Aave reserve data unavailable on this network. Defaulting Aave APY to 0.');
-        console.warn(`   Token address: ${tokenAddress} is not supported on Aave for this network.`);
-        console.warn(`   Please verify: 1) Token address is correct for this network, 2) Token is listed on Aave.`);
-        return 0;
-      }
-    } catch (error: any) {
-      if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-        console.warn('WARNING: Aave reserve data unavailable on this network. Defaulting Aave APY to 0.');
-        console.warn(`   Token address: ${tokenAddress} is not supported on Aave for this network.`);
-        console.warn(`   Possible issues:`);
-        console.warn(`   1. Token address is incorrect for this network`);
-        console.warn(`   2. Token is not listed on Aave for this network`);
-        console.warn(`   3. Data Provider address (${AAVE_DATA_PROVIDER_ADDRESS}) is wrong for this network`);
-        return 0;
-      }
-      // Re-throw if it's a different error
-      throw error;
-    }
-    
-    // Get reserve data for APY calculation
-    let reserveData;
-    try {
-      reserveData = await dataProvider.getReserveData(tokenAddress);
-    } catch (error: any) {
-      if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-        console.warn('WARNING: Aave reserve data unavailable on this network. Defaulting Aave APY to 0.');
-        console.warn(`   Failed to get reserve data for token: ${tokenAddress}`);
-        console.warn(`   Possible issues:`);
-        console.warn(`   1. Token address is incorrect for this network`);
-        console.warn(`   2. Token is not listed on Aave for this network`);
-        console.warn(`   3. Data Provider address (${AAVE_DATA_PROVIDER_ADDRESS}) is wrong for this network`);
-        return 0;
-      }
-      throw error;
-    }
-    
-    // Handle both array and object response formats
-    let liquidityRate: bigint;
-    if (Array.isArray(reserveData)) {
-      // The liquidityRate is at index 5 based on the ABI return tuple
-      liquidityRate = reserveData[5];
-    } else {
-      // Try named property first, then fall back to index
-      const data = reserveData as any;
-      liquidityRate = data.liquidityRate || data[5];
-    }
-    
-    // Validate liquidity rate
-    if (!liquidityRate || liquidityRate === 0n) {
-      console.warn('WARNING: Aave liquidity rate is 0. Defaulting Aave APY to 0.');
-      return 0;
-    }
-    
-    // Aave V3 liquidity rate is in RAY format (1e27) and is ALREADY annualized
-    // We just need to convert from RAY to percentage, then to basis points
-    // APY% = liquidityRate / 1e27 * 100
-    // APY basis points = liquidityRate / 1e27 * 10000
-    const apyBasisPoints = Math.floor(Number(liquidityRate) / 1e27 * 10000);
-    
-    return apyBasisPoints;
+    reserveTokens = await dataProvider.getReserveTokensAddresses(tokenAddress);
   } catch (error: any) {
-    if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-      console.warn('WARNING: Aave reserve data unavailable on this network. Defaulting Aave APY to 0.');
-      console.warn(`   Token address: ${tokenAddress} is not supported on Aave for this network.`);
-      return 0;
-    }
-    console.error('Error fetching Aave APY:', error.message || error);
-    console.warn('WARNING: Aave reserve data unavailable on this network. Defaulting Aave APY to 0.');
-    console.warn(`   Check network configuration and Aave contract addresses.`);
+    throw new Error(`Could not read Aave reserve ${tokenAddress} from data provider ${getAaveDataProviderAddress()}: ${error.shortMessage || error.message}`);
+  }
+  const aTokenAddress: string = reserveTokens.aTokenAddress;
+  return aTokenAddress && aTokenAddress !== ethers.ZeroAddress ? aTokenAddress : null;
+}
+
+/**
+ * Get current supply APY for Aave V3
+ * @returns APY in basis points (0 when the token has no Aave reserve)
+ * @throws If the reserve cannot be read; a failed read is never reported as a rate of 0
+ */
+export async function getAaveAPY(provider: ethers.Provider, tokenAddress: string): Promise<number> {
+  const dataProvider = new ethers.Contract(
+    getAaveDataProviderAddress(),
+    AAVE_DATA_PROVIDER_ABI,
+    provider
+  );
+
+  if (!(await findATokenAddress(dataProvider, tokenAddress))) {
+    console.warn(`WARNING: ${tokenAddress} has no Aave reserve on this network. Aave APY is 0.`);
     return 0;
   }
+
+  let reserveData;
+  try {
+    reserveData = await dataProvider.getReserveData(tokenAddress);
+  } catch (error: any) {
+    throw new Error(`Could not read Aave reserve data for ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+
+  // Aave V3 liquidity rate is an APR in RAY format (1e27)
+  // Compound it per second to get the APY in basis points
+  return aaveSupplyRate(reserveData.liquidityRate).apy;
 }
 
-export async function getAaveBalance(
+interface AaveRateParams {
+  optimalUsageRatio: bigint;
+  baseVariableBorrowRate: bigint;
+  variableRateSlope1: bigint;
+  variableRateSlope2: bigint;
+}
+
+/**
+ * Read the variable rate curve of a reserve's interest rate strategy (RAY values)
+ */
+async function getAaveRateParams(
+  provider: ethers.Provider,
+  strategyAddress: string,
+  tokenAddress: string
+): Promise<AaveRateParams> {
+  const strategy = new ethers.Contract(strategyAddress, AAVE_RATE_STRATEGY_ABI, provider);
+
+  try {
+    const data = await strategy.getInterestRateData(tokenAddress);
+    return {
+      optimalUsageRatio: data.optimalUsageRatio,
+      baseVariableBorrowRate: data.baseVariableBorrowRate,
+      variableRateSlope1: data.variableRateSlope1,
+      variableRateSlope2: data.variableRateSlope2
+    };
+  } catch {
+    // Pre-v3.2 strategy: parameters are immutables of the strategy contract
+    const [optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2] = await Promise.all([
+      strategy.getOptimalUsageRatio(),
+      strategy.getBaseVariableBorrowRate(),
+      strategy.getVariableRateSlope1(),
+      strategy.getVariableRateSlope2()
+    ]);
+    return { optimalUsageRatio, baseVariableBorrowRate, variableRateSlope1, variableRateSlope2 };
+  }
+}
+
+/**
+ * Aave's liquidity rate model (RAY):
+ * borrowRate follows the two-slope curve around the optimal usage ratio,
+ * liquidityRate = borrowRate * usage * (1 - reserveFactor)
+ */
+function modelAaveLiquidityRate(
+  params: AaveRateParams,
+  totalDebt: bigint,
+  totalLiquidity: bigint,
+  reserveFactor: bigint
+): bigint {
+  if (totalDebt === 0n || totalLiquidity <= 0n) {
+    return 0n;
+  }
+
+  const usage = (totalDebt * RAY) / totalLiquidity;
+  let borrowRate = params.baseVariableBorrowRate;
+  if (usage <= params.optimalUsageRatio) {
+    borrowRate += (params.variableRateSlope1 * usage) / params.optimalUsageRatio;
+  } else {
+    const excess = ((usage - params.optimalUsageRatio) * RAY) / (RAY - params.optimalUsageRatio);
+    borrowRate += params.variableRateSlope1 + (params.variableRateSlope2 * excess) / RAY;
+  }
+
+  return (((borrowRate * usage) / RAY) * (10000n - reserveFactor)) / 10000n;
+}
+
+/**
+ * Estimate Aave V3 APY after supplying or withdrawing liquidity
+ * Re-evaluates the reserve's rate curve at the post-move usage ratio using
+ * getReserveData totals, then scales the on-chain liquidity rate by the
+ * modelled change so unmodelled terms (stable debt, unbacked) cancel out
+ * @param provider Ethers provider
+ * @param tokenAddress Reserve asset
+ * @param liquidityDelta Amount supplied (positive) or withdrawn (negative)
+ * @returns APY in basis points (e.g., 500 = 5%)
+ * @throws If the reserve or its rate strategy cannot be read
+ */
+export async function getAaveProjectedAPY(
   provider: ethers.Provider,
   tokenAddress: string,
-  userAddress: string
-): Promise<bigint> {
+  liquidityDelta: bigint
+): Promise<number> {
   try {
     const dataProvider = new ethers.Contract(
-      AAVE_DATA_PROVIDER_ADDRESS,
+      getAaveDataProviderAddress(),
       AAVE_DATA_PROVIDER_ABI,
       provider
     );
+    const pool = new ethers.Contract(getAavePoolAddress(), AAVE_POOL_ABI, provider);
 
-    // Try to get aToken address for this reserve
-    let reserveTokens;
-    try {
-      reserveTokens = await dataProvider.getReserveTokensAddresses(tokenAddress);
-    } catch (error: any) {
-      // If the call fails with BAD_DATA or empty response, token is not supported
-      if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-        // Token not supported or reserve doesn't exist - return 0 silently
-        // This might indicate wrong token address or network mismatch
-        return 0n;
-      }
-      // Re-throw other errors
-      throw error;
-    }
-    
-    // Check if we got valid results
-    // getReserveTokensAddresses returns a tuple: [aTokenAddress, stableDebtTokenAddress, variableDebtTokenAddress]
-    if (!reserveTokens) {
-      return 0n;
-    }
-    
-    // Handle both array and object response formats
-    // In ethers v6, tuple returns can be arrays or objects with named properties
-    let aTokenAddress: string;
-    if (Array.isArray(reserveTokens)) {
-      aTokenAddress = reserveTokens[0];
-    } else if (reserveTokens && typeof reserveTokens === 'object') {
-      // Try named properties first (ethers v6 tuple with names), then fall back to array access
-      // The ABI defines: returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)
-      const result = reserveTokens as any;
-      aTokenAddress = result.aTokenAddress || result[0] || (result.length > 0 ? result[0] : null);
-    } else {
-      return 0n;
-    }
-    
-    // Additional check: if aTokenAddress is still undefined, try to extract from the result
-    if (!aTokenAddress && reserveTokens) {
-      // Last resort: try to get the first property value
-      const keys = Object.keys(reserveTokens);
-      if (keys.length > 0) {
-        aTokenAddress = (reserveTokens as any)[keys[0]];
-      }
+    const [reserveData, configuration, poolReserve] = await Promise.all([
+      dataProvider.getReserveData(tokenAddress),
+      dataProvider.getReserveConfigurationData(tokenAddress),
+      pool.getReserveData(tokenAddress)
+    ]);
+
+    const liquidityRate: bigint = reserveData.liquidityRate;
+    if (liquidityRate === 0n || liquidityDelta === 0n) {
+      return aaveSupplyRate(liquidityRate).apy;
     }
 
-    // If no aToken address, reserve doesn't exist
-    if (!aTokenAddress || aTokenAddress === ethers.ZeroAddress || aTokenAddress === '0x0000000000000000000000000000000000000000') {
-      return 0n;
+    const params = await getAaveRateParams(provider, poolReserve.interestRateStrategyAddress, tokenAddress);
+    const totalDebt: bigint = reserveData.totalStableDebt + reserveData.totalVariableDebt;
+    const totalAToken: bigint = reserveData.totalAToken;
+    const reserveFactor: bigint = configuration.reserveFactor;
+
+    const modelledNow = modelAaveLiquidityRate(params, totalDebt, totalAToken, reserveFactor);
+    const modelledAfter = modelAaveLiquidityRate(params, totalDebt, totalAToken + liquidityDelta, reserveFactor);
+    if (modelledNow === 0n) {
+      return aaveSupplyRate(liquidityRate).apy;
     }
 
-    // Get balance directly from aToken contract (more reliable than getUserReserveData)
-    const aTokenContract = new ethers.Contract(
-      aTokenAddress,
-      ERC20_ABI,
+    const projectedRate = (liquidityRate * modelledAfter) / modelledNow;
+    return aaveSupplyRate(projectedRate).apy;
+  } catch (error: any) {
+    throw new Error(`Could not estimate Aave post-move APY for ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Get Aave V3 reserve utilization
+ * @returns Utilization in basis points (e.g., 8000 = 80%)
+ * @throws If the reserve cannot be read
+ */
+export async function getAaveUtilization(
+  provider: ethers.Provider,
+  tokenAddress: string
+): Promise<number> {
+  try {
+    const dataProvider = new ethers.Contract(
+      getAaveDataProviderAddress(),
+      AAVE_DATA_PROVIDER_ABI,
       provider
     );
 
-    try {
-      const balance = await aTokenContract.balanceOf(userAddress);
-      return balance || 0n;
-    } catch (error: any) {
-      // If balanceOf fails, user likely has no position
-      if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-        return 0n;
-      }
-      // Re-throw unexpected errors
-      throw error;
-    }
+    const reserveData = await dataProvider.getReserveData(tokenAddress);
+    const totalDebt: bigint = reserveData.totalStableDebt + reserveData.totalVariableDebt;
+    const totalAToken: bigint = reserveData.totalAToken;
+    return totalAToken > 0n ? Number((totalDebt * 10000n) / totalAToken) : 0;
   } catch (error: any) {
-    // Handle BAD_DATA errors gracefully (expected when user has no position or token not supported)
-    if (error.code === 'BAD_DATA' || error.value === '0x' || error.message?.includes('could not decode')) {
-      // This is expected when user has no position or token is not supported - return 0 silently
-      return 0n;
-    }
-    // For other errors, return 0 (don't throw to prevent script failure)
-    // Don't log expected errors to avoid noise
+    throw new Error(`Could not read Aave utilization for ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Get user's supplied balance on Aave, read from the reserve's aToken
+ * @returns Balance in the token's smallest unit (0 when the token has no Aave reserve)
+ * @throws If the reserve or the aToken cannot be read
+ */
+export async function getAaveBalance(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  userAddress: string
+): Promise<bigint> {
+  const dataProvider = new ethers.Contract(
+    getAaveDataProviderAddress(),
+    AAVE_DATA_PROVIDER_ABI,
+    provider
+  );
+
+  const aTokenAddress = await findATokenAddress(dataProvider, tokenAddress);
+  if (!aTokenAddress) {
     return 0n;
   }
+
+  const aToken = new ethers.Contract(aTokenAddress, ERC20_ABI, provider);
+  try {
+    return await aToken.balanceOf(userAddress);
+  } catch (error: any) {
+    throw new Error(`Could not read the Aave balance of ${userAddress} from aToken ${aTokenAddress}: ${error.shortMessage || error.message}`);
+  }
 }
+
+/**
+ * Get an asset's price from the Aave oracle
+ * The oracle is resolved through the pool's addresses provider, so it always
+ * matches the configured pool
+ * @returns Price in the oracle's base currency (USD with 8 decimals on V3 markets)
+ */
+export async function getAaveAssetPrice(
+  provider: ethers.Provider,
+  assetAddress: string
+): Promise<bigint> {
+  const pool = new ethers.Contract(getAavePoolAddress(), AAVE_POOL_ABI, provider);
+  const addressesProvider = new ethers.Contract(
+    await pool.ADDRESSES_PROVIDER(),
+    AAVE_ADDRESSES_PROVIDER_ABI,
+    provider
+  );
+  const oracle = new ethers.Contract(
+    await addressesProvider.getPriceOracle(),
+    AAVE_ORACLE_ABI,
+    provider
+  );
+  return oracle.getAssetPrice(assetAddress);
+}
+
+/**
+ * Encode supply transaction for Aave V3
+ * @param tokenAddress Token to supply
+ * @param amount Amount to supply
+ * @param onBehalfOf Address receiving the aTokens
+ * @returns Encoded transaction data
+ */
+export function encodeAaveSupply(
+  tokenAddress: string,
+  amount: string,
+  onBehalfOf: string
+): string {
+  const poolInterface = new ethers.Interface(AAVE_POOL_ABI);
+  return poolInterface.encodeFunctionData('supply', [tokenAddress, amount, onBehalfOf, '0']);
+}
+
+/**
+ * Encode withdraw transaction for Aave V3
+ * @param tokenAddress Token to withdraw
+ * @param amount Amount to withdraw (type(uint256).max withdraws the entire position, including accrued interest)
+ * @param to Address receiving the underlying tokens
+ * @returns Encoded transaction data
+ */
+export function encodeAaveWithdraw(
+  tokenAddress: string,
+  amount: string,
+  to: string
+): string {
+  const poolInterface = new ethers.Interface(AAVE_POOL_ABI);
+  return poolInterface.encodeFunctionData('withdraw', [tokenAddress, amount, to]);
+}
+
+/**
+ * Aave V3 lending protocol adapter
+ */
+export const aaveAdapter: LendingProtocolAdapter = {
+  id: 'aave',
+  name: 'Aave',
+  getSupplyAPY: getAaveAPY,
+  getProjectedSupplyAPY: getAaveProjectedAPY,
+  getUtilization: getAaveUtilization,
+  getBalance: getAaveBalance,
+  encodeSupply: (tokenAddress, amount, onBehalfOf) => ({
+    to: getAavePoolAddress(),
+    value: '0',
+    data: encodeAaveSupply(tokenAddress, amount.toString(), onBehalfOf)
+  }),
+  encodeWithdraw: (tokenAddress, amount, to) => ({
+    to: getAavePoolAddress(),
+    value: '0',
+    data: encodeAaveWithdraw(tokenAddress, amount.toString(), to)
+  }),
+  approvalTarget: () => getAavePoolAddress()
+};
@@ -0,0 +1,100 @@
+import { ethers } from 'ethers';
+
+/**
+ * Lending protocol adapter interface
+ * Every venue the optimizer can move funds between implements this,
+ * so yield comparison and rebalancing never branch on protocol names
+ */
+
+// Registry key of a lending protocol (e.g. 'aave', 'compound')
+export type ProtocolId = string;
+
+// Transaction executed by the Safe wallet
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  operation?: number; // 0 = CALL (default), 1 = DELEGATECALL
+}
+
+export interface LendingProtocolAdapter {
+  id: ProtocolId;
+  name: string;
+
+  /**
+   * Check whether the protocol has a market for the token
+   * Adapters omitting this are assumed to list every token
+   */
+  supportsToken?(tokenAddress: string): boolean;
+
+  /**
+   * Get current supply APY
+   * @returns APY in basis points (e.g., 500 = 5%)
+   * @throws If the market cannot be read (callers must not mistake a failed read for a rate of 0)
+   */
+  getSupplyAPY(provider: ethers.Provider, tokenAddress: string): Promise<number>;
+
+  /**
+   * Estimate the supply APY after `liquidityDelta` is supplied (positive) or
+   * withdrawn (negative), accounting for the utilization change it causes
+   * Adapters without a rate model omit this and the spot APY is used
+   * @returns APY in basis points
+   */
+  getProjectedSupplyAPY?(provider: ethers.Provider, tokenAddress: string, liquidityDelta: bigint): Promise<number>;
+
+  /**
+   * Get the market's current utilization (borrowed / supplied)
+   * Optional; only used for recording yield history
+   * @returns Utilization in basis points (e.g., 8000 = 80%)
+   */
+  getUtilization?(provider: ethers.Provider, tokenAddress: string): Promise<number>;
+
+  /**
+   * Get user's supplied balance
+   * @returns Balance in the token's smallest unit
+   * @throws If the market cannot be read (callers must not mistake a failed read for an empty position)
+   */
+  getBalance(provider: ethers.Provider, tokenAddress: string, userAddress: string): Promise<bigint>;
+
+  /**
+   * Build the transaction supplying `amount` of the token on behalf of `onBehalfOf`
+   */
+  encodeSupply(tokenAddress: string, amount: bigint, onBehalfOf: string): SafeTransaction;
+
+  /**
+   * Build the transaction withdrawing `amount` of the token to `to`
+   * `WITHDRAW_ALL` must withdraw the entire position, interest accrued until execution included
+   */
+  encodeWithdraw(tokenAddress: string, amount: bigint, to: string): SafeTransaction;
+
+  /**
+   * Address that must be approved to pull the token on supply
+   */
+  approvalTarget(tokenAddress: string): string;
+}
+
+// Withdraw amount meaning "the whole position" (type(uint256).max), understood by Aave V3 and Compound V3
+export const WITHDRAW_ALL = ethers.MaxUint256;
+
+const ERC20_APPROVE_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)'
+];
+
+/**
+ * Build an ERC20 approve transaction
+ * @param tokenAddress Token to approve
+ * @param spender Address to approve
+ * @param amount Amount to approve
+ */
+export function encodeApprovalTransaction(
+  tokenAddress: string,
+  spender: string,
+  amount: bigint
+): SafeTransaction {
+  const erc20Interface = new ethers.Interface(ERC20_APPROVE_ABI);
+  return {
+    to: tokenAddress,
+    value: '0',
+    data: erc20Interface.encodeFunctionData('approve', [spender, amount.toString()])
+  };
+}
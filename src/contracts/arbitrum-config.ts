@@ -1,38 +1,12 @@
+import { NETWORKS } from './networks';
+
 /**
  * Arbitrum Mainnet Configuration
  * Protocol contract addresses for Aave V3 and Compound V3 on Arbitrum
+ * (kept for existing imports; other chains are in ./networks)
  */
 
-export const ARBITRUM_CONFIG = {
-  // Network
-  CHAIN_ID: 42161,
-  RPC_URL: 'https://arb1.arbitrum.io/rpc',
-
-  // Aave V3
-  AAVE: {
-    POOL: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
-    DATA_PROVIDER: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654',
-    ORACLE: '0xb56c2F0B653B2e0b10C9b928C8580Ac5Df02C7C7'
-  },
-
-  // Compound V3
-  COMPOUND: {
-    USDC_COMET: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf',
-    USDT_COMET: '0xd98Be00b5D27fc98112BdE293e487f8D4cA57d07'
-  },
-
-  // Tokens
-  TOKENS: {
-    USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
-    USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
-    DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
-    WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
-    ARB: '0x912CE59144191C1204E64559FE8253a0e49E6548'
-  },
-
-  // Common addresses
-  MULTICALL3: '0xcA11bde05977b3631167028862bE2a173976CA11'
-};
+export const ARBITRUM_CONFIG = NETWORKS[42161];
 
 // Export individual constants for backwards compatibility
 export const AAVE_POOL_ADDRESS = ARBITRUM_CONFIG.AAVE.POOL;
@@ -1,15 +1,40 @@
 import { ethers } from 'ethers';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { LendingProtocolAdapter } from './adapter';
+import { WAD, compoundSupplyRate } from '../rates';
+import { NETWORKS, findTokenSymbol } from './networks';
+import { loadConfig } from '../config';
 
 /**
  * Compound V3 contract addresses and ABIs
- * Configurable via environment variables for different networks
+ * Addresses come from the network profile (see src/config.ts)
+ * Every Comet market lends a single base token, so each asset has its own market
  */
 
-// Compound V3 USDC Comet address - defaults to Sepolia, can be overridden for Arbitrum
-export const COMPOUND_COMET_ADDRESS = process.env.COMPOUND_COMET_ADDRESS || '0xAec1F48e02Cfb822Be958B68C7957156EB3F0b6e';
+/**
+ * Find the Comet market lending a token, read on use (see getAavePoolAddress)
+ * contracts.compoundComet serves tokenAddress; other assets use the registry's <SYMBOL>_COMET
+ * @returns Comet address, or undefined when Compound V3 has no market for the token
+ */
+export function findCometAddress(tokenAddress: string): string | undefined {
+  const config = loadConfig();
+  if (tokenAddress.toLowerCase() === config.tokenAddress.toLowerCase()) {
+    return config.contracts.compoundComet;
+  }
+  const symbol = findTokenSymbol(config.chainId, tokenAddress);
+  return symbol ? NETWORKS[config.chainId].COMPOUND[`${symbol}_COMET`] : undefined;
+}
+
+/**
+ * Get the Comet market lending a token
+ * @throws If Compound V3 has no market for the token on this network
+ */
+export function getCometAddress(tokenAddress: string): string {
+  const cometAddress = findCometAddress(tokenAddress);
+  if (!cometAddress) {
+    throw new Error(`No Compound V3 market for token ${tokenAddress} on ${loadConfig().network}`);
+  }
+  return cometAddress;
+}
 
 // Minimal ABI for Compound V3 Comet
 export const COMPOUND_COMET_ABI = [
@@ -34,73 +59,123 @@ export const ERC20_ABI = [
 /**
  * Get current APY for Compound V3
  * @param provider Ethers provider
+ * @param tokenAddress Base token of the market
  * @returns APY in basis points (e.g., 500 = 5%)
+ * @throws If the token has no market, or the market cannot be read; a failed read is never reported as a rate of 0
  */
-export async function getCompoundAPY(provider: ethers.Provider): Promise<number> {
+export async function getCompoundAPY(provider: ethers.Provider, tokenAddress: string): Promise<number> {
+  const cometAddress = getCometAddress(tokenAddress);
   try {
-    // First verify the contract exists
-    const code = await provider.getCode(COMPOUND_COMET_ADDRESS);
+    // A configured market without code is a wrong address, not a rate of 0
+    const code = await provider.getCode(cometAddress);
     if (code === '0x') {
-      console.warn(`WARNING: Compound contract not deployed at ${COMPOUND_COMET_ADDRESS}`);
-      return 0;
+      throw new Error(`no contract deployed at ${cometAddress}`);
     }
 
     const comet = new ethers.Contract(
-      COMPOUND_COMET_ADDRESS,
+      cometAddress,
       COMPOUND_COMET_ABI,
       provider
     );
 
-    // Get current utilization
-    let utilization: bigint;
-    try {
-      utilization = await comet.getUtilization();
-    } catch (error: any) {
-      console.warn(`WARNING: Could not get Compound utilization: ${error.message}`);
-      return 0;
-    }
-    
     // Get supply rate for current utilization
+    // Compound V3 returns a per-second rate; compound it to get the APY
+    const utilization: bigint = await comet.getUtilization();
+    const supplyRate = await comet.getSupplyRate(utilization);
+
+    return compoundSupplyRate(supplyRate).apy;
+  } catch (error: any) {
+    throw new Error(`Could not read Compound APY for ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Estimate Compound V3 APY after supplying or withdrawing liquidity
+ * A deposit grows totalSupply and lowers utilization (and with it the supply rate);
+ * a withdrawal does the opposite. The rate curve itself is evaluated on-chain.
+ * @param provider Ethers provider
+ * @param tokenAddress Base token of the market
+ * @param liquidityDelta Amount supplied (positive) or withdrawn (negative), in base token units
+ * @returns APY in basis points (e.g., 500 = 5%)
+ * @throws If the market cannot be read
+ */
+export async function getCompoundProjectedAPY(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  liquidityDelta: bigint
+): Promise<number> {
+  try {
+    const comet = new ethers.Contract(
+      getCometAddress(tokenAddress),
+      COMPOUND_COMET_ABI,
+      provider
+    );
+
+    const [totalSupply, totalBorrow]: [bigint, bigint] = await Promise.all([
+      comet.totalSupply(),
+      comet.totalBorrow()
+    ]);
+
+    // Utilization is scaled by 1e18, matching Comet's getUtilization()
+    const newSupply = totalSupply + liquidityDelta;
+    const utilization = newSupply > 0n ? (totalBorrow * WAD) / newSupply : WAD;
+
     const supplyRate = await comet.getSupplyRate(utilization);
+    return compoundSupplyRate(supplyRate).apy;
+  } catch (error: any) {
+    throw new Error(`Could not estimate Compound post-move APY for ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+}
 
-    // Convert supply rate to APY in basis points
-    // Compound V3 returns rate per second, need to annualize
-    // APY = (1 + ratePerSecond) ^ secondsPerYear - 1
-    // Simplified approximation: APY ≈ ratePerSecond * secondsPerYear
-    const secondsPerYear = 365.25 * 24 * 60 * 60;
-    const ratePerSecond = Number(supplyRate) / 1e18;
-    const apy = ratePerSecond * secondsPerYear;
-    const apyBasisPoints = Math.floor(apy * 10000);
+/**
+ * Get Compound V3 market utilization
+ * @returns Utilization in basis points (e.g., 8000 = 80%)
+ * @throws If the market cannot be read
+ */
+export async function getCompoundUtilization(provider: ethers.Provider, tokenAddress: string): Promise<number> {
+  try {
+    const comet = new ethers.Contract(
+      getCometAddress(tokenAddress),
+      COMPOUND_COMET_ABI,
+      provider
+    );
 
-    return apyBasisPoints;
+    // Comet reports utilization scaled by 1e18
+    const utilization: bigint = await comet.getUtilization();
+    return Number((utilization * 10000n) / WAD);
   } catch (error: any) {
-    console.warn(`WARNING: Error fetching Compound APY: ${error.message || error}`);
-    return 0;
+    throw new Error(`Could not read Compound utilization for ${tokenAddress}: ${error.shortMessage || error.message}`);
   }
 }
 
 /**
  * Get user's supplied balance on Compound
  * @param provider Ethers provider
+ * @param tokenAddress Base token of the market
  * @param userAddress User's address
- * @returns Balance in base token's smallest unit
+ * @returns Balance in base token's smallest unit (0 when the token has no market)
+ * @throws If the market cannot be read
  */
 export async function getCompoundBalance(
   provider: ethers.Provider,
+  tokenAddress: string,
   userAddress: string
 ): Promise<bigint> {
+  const cometAddress = findCometAddress(tokenAddress);
+  if (!cometAddress) {
+    return 0n;
+  }
+
   try {
     const comet = new ethers.Contract(
-      COMPOUND_COMET_ADDRESS,
+      cometAddress,
       COMPOUND_COMET_ABI,
       provider
     );
 
-    const balance = await comet.balanceOf(userAddress);
-    return balance;
-  } catch (error) {
-    console.error('Error fetching Compound balance:', error);
-    return 0n;
+    return await comet.balanceOf(userAddress);
+  } catch (error: any) {
+    throw new Error(`Could not read the Compound balance of ${userAddress} from ${cometAddress}: ${error.shortMessage || error.message}`);
   }
 }
 
@@ -121,7 +196,7 @@ export function encodeCompoundSupply(
 /**
  * Encode withdraw transaction for Compound V3
  * @param tokenAddress Token to withdraw
- * @param amount Amount to withdraw
+ * @param amount Amount to withdraw (type(uint256).max withdraws the entire base balance, including accrued interest)
  * @returns Encoded transaction data
  */
 export function encodeCompoundWithdraw(
@@ -142,3 +217,28 @@ export function encodeApproval(spender: string, amount: string): string {
   const erc20Interface = new ethers.Interface(ERC20_ABI);
   return erc20Interface.encodeFunctionData('approve', [spender, amount]);
 }
+
+/**
+ * Compound V3 lending protocol adapter
+ * The token selects the Comet market; tokens without one are not supported
+ */
+export const compoundAdapter: LendingProtocolAdapter = {
+  id: 'compound',
+  name: 'Compound',
+  supportsToken: (tokenAddress) => findCometAddress(tokenAddress) !== undefined,
+  getSupplyAPY: (provider, tokenAddress) => getCompoundAPY(provider, tokenAddress),
+  getProjectedSupplyAPY: (provider, tokenAddress, liquidityDelta) => getCompoundProjectedAPY(provider, tokenAddress, liquidityDelta),
+  getUtilization: (provider, tokenAddress) => getCompoundUtilization(provider, tokenAddress),
+  getBalance: (provider, tokenAddress, userAddress) => getCompoundBalance(provider, tokenAddress, userAddress),
+  encodeSupply: (tokenAddress, amount) => ({
+    to: getCometAddress(tokenAddress),
+    value: '0',
+    data: encodeCompoundSupply(tokenAddress, amount.toString())
+  }),
+  encodeWithdraw: (tokenAddress, amount) => ({
+    to: getCometAddress(tokenAddress),
+    value: '0',
+    data: encodeCompoundWithdraw(tokenAddress, amount.toString())
+  }),
+  approvalTarget: (tokenAddress) => getCometAddress(tokenAddress)
+};
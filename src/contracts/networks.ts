@@ -0,0 +1,229 @@
+/**
+ * Network registry
+ * Protocol contract addresses for Aave V3 and Compound V3 per chain, keyed by chain ID
+ * Comet markets are named after their base token (USDC_COMET lends TOKENS.USDC)
+ */
+
+export interface NetworkConfig {
+  NAME: string; // network profile name (NETWORK=...)
+  CHAIN_ID: number;
+  RPC_URL: string; // public RPC, override with RPC_URL
+  DEFAULT_TOKEN: string; // key of TOKENS optimized when TOKEN_ADDRESS is unset
+
+  // Aave V3
+  AAVE: {
+    POOL: string;
+    DATA_PROVIDER: string;
+    ORACLE?: string; // prices are read through the pool's addresses provider
+  };
+
+  // Compound V3 Comet markets
+  COMPOUND: Record<string, string>;
+
+  // Tokens
+  TOKENS: Record<string, string>;
+
+  // Common addresses
+  MULTICALL3: string;
+  MULTISEND_CALL_ONLY: string; // Safe 1.4.1 MultiSendCallOnly
+}
+
+// Deterministic deployments, same address on every chain
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTISEND_CALL_ONLY = '0x9641d764fc13c8B624c04430C7356C1C7C8102e2';
+
+export const NETWORKS: Record<number, NetworkConfig> = {
+  // Ethereum Mainnet
+  1: {
+    NAME: 'ethereum',
+    CHAIN_ID: 1,
+    RPC_URL: 'https://ethereum-rpc.publicnode.com',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+      DATA_PROVIDER: '0x7B4EB56E7CD4b454BA8ff71E4518426369a138a3',
+      ORACLE: '0x54586bE62E3c3580375aE3723C145253060Ca0C2'
+    },
+    COMPOUND: {
+      USDC_COMET: '0xc3d688B66703497DAA19211EEdff47f25384cdc3',
+      USDT_COMET: '0x3Afdc9BCA9213A35503b077a6072F3D0d5AB0840',
+      WETH_COMET: '0xA17581A9E3356d9A858b789D68B4d866e593aE94'
+    },
+    TOKENS: {
+      USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      DAI: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+      WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Optimism
+  10: {
+    NAME: 'optimism',
+    CHAIN_ID: 10,
+    RPC_URL: 'https://mainnet.optimism.io',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      DATA_PROVIDER: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654',
+      ORACLE: '0xD81eb3728a631871a7eBBaD631b5f424909f0c77'
+    },
+    COMPOUND: {
+      USDC_COMET: '0x2e44e174f7D53F0212823acC11C01A11d58c5bCB',
+      USDT_COMET: '0x995E394b8B2437aC8Ce61Ee0bC610D617962B214',
+      WETH_COMET: '0xE36A30D249f7761327fd973001A32010b521b6Fd'
+    },
+    TOKENS: {
+      USDC: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+      USDT: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+      WETH: '0x4200000000000000000000000000000000000006'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Polygon PoS (Compound's USDC market lends bridged USDC.e)
+  137: {
+    NAME: 'polygon',
+    CHAIN_ID: 137,
+    RPC_URL: 'https://polygon-rpc.com',
+    DEFAULT_TOKEN: 'USDC_E',
+    AAVE: {
+      POOL: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      DATA_PROVIDER: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654',
+      ORACLE: '0xb023e699F5a33916Ea823A16485e259257cA8Bd1'
+    },
+    COMPOUND: {
+      USDC_E_COMET: '0xF25212E676D1F7F89Cd72fFEe66158f541246445',
+      USDT_COMET: '0xaeB318360f27748Acb200CE616E389A6C9409a07'
+    },
+    TOKENS: {
+      USDC: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      USDC_E: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
+      USDT: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+      DAI: '0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063',
+      WETH: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Base
+  8453: {
+    NAME: 'base',
+    CHAIN_ID: 8453,
+    RPC_URL: 'https://mainnet.base.org',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5',
+      DATA_PROVIDER: '0x2d8A3C5677189723C4cB8873CfC9C8976FDF38Ac',
+      ORACLE: '0x2Cc0Fc26eD4563A5ce5e8bdcfe1A2878676Ae156'
+    },
+    COMPOUND: {
+      USDC_COMET: '0xb125E6687d4313864e53df431d5425969c15Eb2F',
+      USDBC_COMET: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf',
+      WETH_COMET: '0x46e6b214b524310239732D51387075E0e70970bf'
+    },
+    TOKENS: {
+      USDC: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      USDBC: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+      DAI: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+      WETH: '0x4200000000000000000000000000000000000006'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Arbitrum One
+  42161: {
+    NAME: 'arbitrum',
+    CHAIN_ID: 42161,
+    RPC_URL: 'https://arb1.arbitrum.io/rpc',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0x794a61358D6845594F94dc1DB02A252b5b4814aD',
+      DATA_PROVIDER: '0x69FA688f1Dc47d4B5d8029D5a35FB7a548310654',
+      ORACLE: '0xb56c2F0B653B2e0b10C9b928C8580Ac5Df02C7C7'
+    },
+    COMPOUND: {
+      USDC_COMET: '0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf',
+      USDT_COMET: '0xd98Be00b5D27fc98112BdE293e487f8D4cA57d07',
+      WETH_COMET: '0x6f7D514bbD4aFf3BcD1140B7344b32f063dEe486'
+    },
+    TOKENS: {
+      USDC: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      USDT: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+      DAI: '0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1',
+      WETH: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+      ARB: '0x912CE59144191C1204E64559FE8253a0e49E6548'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Arbitrum Sepolia (no Compound V3 deployment; set COMPOUND_COMET_ADDRESS to use one)
+  421614: {
+    NAME: 'arbitrum-sepolia',
+    CHAIN_ID: 421614,
+    RPC_URL: 'https://sepolia-rollup.arbitrum.io/rpc',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0xBfC91D59fdAA134A4ED45f7B584cAf96D7792Eff',
+      DATA_PROVIDER: '0x12373B5085e3b42D42C1D4ABF3B3Cf4Df0E0Fa01'
+    },
+    COMPOUND: {},
+    TOKENS: {
+      USDC: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+      WETH: '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  },
+
+  // Ethereum Sepolia (Aave faucet tokens)
+  11155111: {
+    NAME: 'sepolia',
+    CHAIN_ID: 11155111,
+    RPC_URL: 'https://rpc.sepolia.org',
+    DEFAULT_TOKEN: 'USDC',
+    AAVE: {
+      POOL: '0x6Ae43d3271ff6888e7Fc43Fd7321a503ff738951',
+      DATA_PROVIDER: '0x3e9708d80f7B3e43118013075F7e95CE3AB31F31',
+      ORACLE: '0x2da88497588bf89281816106C7259e31AF45a663'
+    },
+    COMPOUND: {
+      USDC_COMET: '0xAec1F48e02Cfb822Be958B68C7957156EB3F0b6e'
+    },
+    TOKENS: {
+      USDC: '0x94a9D9AC8a22534E3FaCa9F4e7F2E2cf85d5E4C8',
+      WETH: '0xC558DBdd856501FCd9aaF1E62eae57A9F0629a3c'
+    },
+    MULTICALL3,
+    MULTISEND_CALL_ONLY
+  }
+};
+
+/**
+ * Get the registry entry for a chain
+ * @throws If the chain is not in the registry
+ */
+export function getNetworkConfig(chainId: number | bigint | string): NetworkConfig {
+  const network = NETWORKS[Number(chainId)];
+  if (!network) {
+    const known = Object.values(NETWORKS).map(entry => `${entry.NAME} (${entry.CHAIN_ID})`).join(', ');
+    throw new Error(`Chain ${chainId} is not in the network registry (known: ${known})`);
+  }
+  return network;
+}
+
+/**
+ * Find the registry symbol of a token (the key in TOKENS)
+ * @returns Symbol, or undefined for chains or tokens not in the registry
+ */
+export function findTokenSymbol(chainId: number | bigint | string, tokenAddress: string): string | undefined {
+  const tokens = NETWORKS[Number(chainId)]?.TOKENS ?? {};
+  return Object.keys(tokens).find(symbol => tokens[symbol].toLowerCase() === tokenAddress.toLowerCase());
+}
@@ -0,0 +1,48 @@
+import { LendingProtocolAdapter, ProtocolId } from './adapter';
+import { aaveAdapter } from './aave';
+import { compoundAdapter } from './compound';
+
+/**
+ * Lending protocol registry
+ * The optimizer iterates every registered adapter, so adding a venue
+ * only requires implementing LendingProtocolAdapter and registering it here
+ */
+
+const adapters = new Map<ProtocolId, LendingProtocolAdapter>();
+
+/**
+ * Register a lending protocol adapter
+ * @param adapter Adapter to register (replaces any adapter with the same id)
+ */
+export function registerAdapter(adapter: LendingProtocolAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Get a registered adapter by id
+ * @throws If no adapter is registered under that id
+ */
+export function getAdapter(id: ProtocolId): LendingProtocolAdapter {
+  const adapter = adapters.get(id);
+  if (!adapter) {
+    throw new Error(`Unknown lending protocol: ${id}`);
+  }
+  return adapter;
+}
+
+/**
+ * Get all registered adapters in registration order
+ */
+export function getAdapters(): LendingProtocolAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/**
+ * Get the registered adapters with a market for a token, in registration order
+ */
+export function getAdaptersForToken(tokenAddress: string): LendingProtocolAdapter[] {
+  return getAdapters().filter(adapter => adapter.supportsToken?.(tokenAddress) ?? true);
+}
+
+registerAdapter(aaveAdapter);
+registerAdapter(compoundAdapter);
@@ -0,0 +1,221 @@
+import { ethers } from 'ethers';
+import { ProtocolId, SafeTransaction } from './contracts/adapter';
+import { ERC20_ABI, getAaveAssetPrice } from './contracts/aave';
+import { ProtocolPosition, RebalancePlan, netPlanDeltas } from './rebalance';
+import { loadConfig } from './config';
+
+/**
+ * Rebalance profitability
+ * A move only pays off if the extra yield earned on the moved balance over the
+ * holding horizon beats gas, TriggerX job fees and withdrawal slippage
+ */
+
+export interface CostConfig {
+  horizonDays: number; // how long the new allocation is expected to be held
+  jobFeeEth: string; // TriggerX fee per execution, in ETH (e.g., '0.0001')
+  withdrawSlippageBps: number; // value lost per withdrawal, in basis points
+  gasPerTransaction: number; // fallback gas for steps that cannot be estimated in isolation
+  moduleGasOverhead: number; // Safe module execution overhead per job run
+}
+
+// All amounts in the token's smallest unit, as strings
+export interface Profitability {
+  horizonDays: number;
+  expectedGain: string;
+  gasCost: string;
+  jobFee: string;
+  slippage: string;
+  netGain: string;
+  profitable: boolean;
+  reason: string;
+}
+
+/**
+ * Read cost assumptions from the optimizer config
+ */
+export function loadCostConfig(): CostConfig {
+  const { costs } = loadConfig();
+  return {
+    horizonDays: costs.horizonDays,
+    jobFeeEth: costs.jobFeeEth,
+    withdrawSlippageBps: costs.withdrawSlippageBps,
+    gasPerTransaction: costs.gasPerTransaction,
+    moduleGasOverhead: costs.moduleGasOverhead
+  };
+}
+
+/**
+ * Get token decimals from contract
+ * @throws If the token's decimals cannot be read
+ */
+export async function getTokenDecimals(
+  provider: ethers.Provider,
+  tokenAddress: string
+): Promise<number> {
+  try {
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+    return Number(await tokenContract.decimals());
+  } catch (error: any) {
+    throw new Error(`Cannot read decimals of ${tokenAddress}: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Extra yield earned over the horizon by executing the plan
+ * Compares annual yield on post-move balances at post-move APYs against
+ * the current balances at current APYs
+ */
+export function projectYieldGain(
+  positions: ProtocolPosition[],
+  plan: RebalancePlan,
+  apys: Record<ProtocolId, number>,
+  projectedAPYs: Record<ProtocolId, number>,
+  horizonDays: number
+): bigint {
+  const deltas = netPlanDeltas(plan);
+  let annualBefore = 0n;
+  let annualAfter = 0n;
+
+  for (const position of positions) {
+    const balance = BigInt(position.balance);
+    const after = balance + (deltas[position.protocol] ?? 0n);
+    annualBefore += balance * BigInt(apys[position.protocol] ?? 0);
+    annualAfter += after * BigInt(projectedAPYs[position.protocol] ?? 0);
+  }
+
+  // Horizon in hundredths of a day keeps fractional horizons without floats
+  const horizon = BigInt(Math.round(horizonDays * 100));
+  return ((annualAfter - annualBefore) * horizon) / (10000n * 365n * 100n);
+}
+
+/**
+ * Value lost to slippage on every withdrawal in the plan
+ */
+export function estimateSlippage(plan: RebalancePlan, withdrawSlippageBps: number): bigint {
+  return plan.withdrawals.reduce(
+    (sum, withdrawal) => sum + (BigInt(withdrawal.amount) * BigInt(withdrawSlippageBps)) / 10000n,
+    0n
+  );
+}
+
+/**
+ * Configured price of 1 ETH in a token (costs.ethPrices)
+ * @returns Price in the token's smallest unit, or null when the token has no entry
+ */
+export function getConfiguredEthPrice(tokenAddress: string, tokenDecimals: number): bigint | null {
+  const { costs } = loadConfig();
+  const price = Object.entries(costs.ethPrices ?? {})
+    .find(([token]) => token.toLowerCase() === tokenAddress.toLowerCase())?.[1];
+  return price ? ethers.parseUnits(price, tokenDecimals) : null;
+}
+
+/**
+ * Estimate gas for the Safe transactions
+ * Each step is estimated from the Safe's context; later steps depend on earlier
+ * ones (e.g. supply needs the withdrawn tokens), so a failed estimate falls back
+ * to the configured per-transaction gas
+ */
+export async function estimateTransactionsGas(
+  provider: ethers.Provider,
+  transactions: SafeTransaction[],
+  safeAddress: string,
+  config: CostConfig
+): Promise<bigint> {
+  const estimates = await Promise.all(transactions.map(async tx => {
+    try {
+      return await provider.estimateGas({ from: safeAddress, to: tx.to, value: tx.value, data: tx.data });
+    } catch {
+      return BigInt(config.gasPerTransaction);
+    }
+  }));
+
+  return estimates.reduce((sum, gas) => sum + gas, BigInt(config.moduleGasOverhead));
+}
+
+/**
+ * Price of 1 ETH in a token, from Aave oracle prices
+ * Falls back to the token's costs.ethPrices entry when the oracle is unavailable
+ * @returns Price in the token's smallest unit, or null when no price source is available
+ */
+export async function getEthPriceInToken(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  tokenDecimals: number
+): Promise<bigint | null> {
+  const wethAddress = loadConfig().contracts.weth;
+
+  try {
+    if (!wethAddress) {
+      throw new Error('No WETH address configured');
+    }
+    const [ethPrice, tokenPrice] = await Promise.all([
+      getAaveAssetPrice(provider, wethAddress),
+      getAaveAssetPrice(provider, tokenAddress)
+    ]);
+    if (ethPrice > 0n && tokenPrice > 0n) {
+      return (ethPrice * 10n ** BigInt(tokenDecimals)) / tokenPrice;
+    }
+  } catch {
+    // Fall through to the configured price
+  }
+
+  return getConfiguredEthPrice(tokenAddress, tokenDecimals);
+}
+
+/**
+ * Convert a wei amount to token units
+ * @param ethPriceInToken Price of 1 ETH in the token's smallest unit
+ */
+export function convertWeiToToken(wei: bigint, ethPriceInToken: bigint): bigint {
+  return (wei * ethPriceInToken) / 10n ** 18n;
+}
+
+/**
+ * Estimate the gas cost of executing the transactions, in wei
+ */
+export async function estimateGasCostInWei(
+  provider: ethers.Provider,
+  transactions: SafeTransaction[],
+  safeAddress: string,
+  config: CostConfig
+): Promise<bigint> {
+  const [gas, feeData] = await Promise.all([
+    estimateTransactionsGas(provider, transactions, safeAddress, config),
+    provider.getFeeData()
+  ]);
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+
+  return gas * gasPrice;
+}
+
+/**
+ * Decide whether the projected gain covers every cost of the move
+ */
+export function evaluateProfitability(
+  expectedGain: bigint,
+  gasCost: bigint,
+  jobFee: bigint,
+  slippage: bigint,
+  horizonDays: number,
+  tokenDecimals: number
+): Profitability {
+  const netGain = expectedGain - gasCost - jobFee - slippage;
+  const profitable = netGain > 0n;
+  const format = (amount: bigint) => ethers.formatUnits(amount, tokenDecimals);
+
+  const costs = `gas ${format(gasCost)} + job fee ${format(jobFee)} + slippage ${format(slippage)}`;
+  const reason = profitable
+    ? `Extra yield of ${format(expectedGain)} over ${horizonDays} days beats costs (${costs}), net ${format(netGain)}`
+    : `Costs (${costs}) exceed the extra yield of ${format(expectedGain)} over ${horizonDays} days`;
+
+  return {
+    horizonDays,
+    expectedGain: expectedGain.toString(),
+    gasCost: gasCost.toString(),
+    jobFee: jobFee.toString(),
+    slippage: slippage.toString(),
+    netGain: netGain.toString(),
+    profitable,
+    reason
+  };
+}
@@ -1,27 +1,28 @@
 import { ethers } from 'ethers';
 import { createSafeWallet } from 'sdk-triggerx';
 import * as dotenv from 'dotenv';
+import { connect } from './config';
 
 dotenv.config();
 
 async function main() {
   console.log(' Creating Safe Wallet for Yield Optimizer...\n');
 
-  if (!process.env.PRIVATE_KEY || !process.env.RPC_URL) {
-    console.error(' Error: PRIVATE_KEY or RPC_URL not found in .env file');
+  if (!process.env.PRIVATE_KEY) {
+    console.error(' Error: PRIVATE_KEY not found in .env file');
     process.exit(1);
   }
 
   try {
-    const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+    const { config: { rpcUrl }, provider } = await connect();
     const signer = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
     
     // Check if using a forked network
-    const isFork = process.env.RPC_URL?.includes('localhost') || process.env.RPC_URL?.includes('127.0.0.1');
+    const isFork = rpcUrl.includes('localhost') || rpcUrl.includes('127.0.0.1');
     const network = await provider.getNetwork();
     
     console.log(` Network: ${network.name} (Chain ID: ${network.chainId})`);
-    console.log(` RPC URL: ${process.env.RPC_URL}`);
+    console.log(` RPC URL: ${rpcUrl}`);
     
     if (isFork) {
       console.log('\nNOTE: Using forked network (localhost)');
@@ -0,0 +1,88 @@
+import { ProtocolId } from './contracts/adapter';
+import { ProtocolPosition, RebalancePlan, planConsolidation, planToTargets, maxAllocationDrift } from './rebalance';
+import { StrategyConfig, TargetWeights, computeTargetWeights } from './strategy';
+
+/**
+ * Rebalance decision
+ * Pure part of compareYields: given rates and positions, pick the target
+ * allocation and the moves reaching it. Shared by live runs and the backtest
+ */
+
+export interface ProtocolYield {
+  protocol: ProtocolId;
+  name: string;
+  apy: number;
+}
+
+export interface RebalanceDecision {
+  difference: number; // best APY minus the lowest APY of any venue holding funds
+  betterProtocol: ProtocolId | 'equal';
+  targetWeights: TargetWeights;
+  plan: RebalancePlan;
+  drift: number; // largest distance of any venue from its target weight, basis points
+  shouldMove: boolean; // before post-move APY, hysteresis and cost checks
+}
+
+/**
+ * Rank protocols by APY, highest first
+ * Ties keep registration order so the result is deterministic
+ */
+export function rankProtocols(yields: ProtocolYield[]): ProtocolYield[] {
+  return [...yields].sort((a, b) => b.apy - a.apy);
+}
+
+/**
+ * Decide the target allocation and the moves reaching it
+ * @param rankings Protocols with their APY, highest first
+ * @param positions Per-protocol balances of the Safe, with current APYs
+ * @param strategyConfig Allocation strategy
+ * @param minYieldDifference Minimum APY gain (basis points) for the 'best' strategy
+ * @throws If there is no protocol to rank
+ */
+export function decideRebalance(
+  rankings: ProtocolYield[],
+  positions: ProtocolPosition[],
+  strategyConfig: StrategyConfig,
+  minYieldDifference: number
+): RebalanceDecision {
+  if (rankings.length === 0) {
+    throw new Error('No protocols to decide between');
+  }
+  const funded = positions.filter(position => BigInt(position.balance) > 0n);
+
+  // Measure the gain against the worst-yielding venue that holds funds;
+  // without a position, report the spread between the top two venues
+  const best = rankings[0];
+  const baselineAPY = funded.length > 0
+    ? Math.min(...funded.map(position => position.apy))
+    : (rankings[1] ?? best).apy;
+  const difference = best.apy - baselineAPY;
+  const betterProtocol: ProtocolId | 'equal' = difference > 0 ? best.protocol : 'equal';
+
+  const targetWeights = computeTargetWeights(rankings, strategyConfig);
+  const drift = maxAllocationDrift(positions, targetWeights);
+
+  if (strategyConfig.strategy === 'best') {
+    // Every position trailing the best venue by the threshold gets consolidated
+    const plan = planConsolidation(positions, best.protocol, best.apy, minYieldDifference);
+    return {
+      difference,
+      betterProtocol,
+      targetWeights,
+      plan,
+      drift,
+      shouldMove: betterProtocol !== 'equal' && plan.withdrawals.length > 0
+    };
+  }
+
+  // Only rebalance once some venue has drifted far enough from its target weight
+  const plan = planToTargets(positions, targetWeights);
+  return {
+    difference,
+    betterProtocol,
+    targetWeights,
+    plan,
+    drift,
+    shouldMove: drift >= strategyConfig.minRebalanceDrift && plan.withdrawals.length > 0
+  };
+}
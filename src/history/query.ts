@@ -0,0 +1,226 @@
+import { ethers } from 'ethers';
+import { ProtocolId } from '../contracts/adapter';
+import { SampleFilter, SampleSource, YieldSample, readSamples, getHistoryFile } from './store';
+import { getAssetLabel, parseAssetOption } from '../assets';
+import { loadConfig } from '../config';
+
+/**
+ * Yield history queries
+ * Ranges, averages and percentiles over recorded samples, for auditing past
+ * decisions and smoothing the rates new decisions are based on
+ */
+
+export interface SeriesStats {
+  count: number;
+  min: number;
+  max: number;
+  average: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface HistorySummary {
+  from: number;
+  to: number;
+  samples: number;
+  apy: Record<ProtocolId, SeriesStats>;
+  utilization: Record<ProtocolId, SeriesStats>;
+  difference: SeriesStats;
+  moves: number; // samples where the optimizer decided to move funds
+}
+
+/**
+ * Percentile of a series using linear interpolation between closest ranks
+ * @param values Series values (any order)
+ * @param p Percentile between 0 and 100
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Count, range, average and percentiles of a series
+ */
+export function summarizeSeries(values: number[]): SeriesStats {
+  if (values.length === 0) {
+    return { count: 0, min: 0, max: 0, average: 0, p50: 0, p90: 0, p99: 0 };
+  }
+
+  return {
+    count: values.length,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: values.reduce((sum, value) => sum + value, 0) / values.length,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99)
+  };
+}
+
+/**
+ * Collect one protocol metric across samples
+ */
+function seriesByProtocol(
+  samples: YieldSample[],
+  metric: (sample: YieldSample) => Record<ProtocolId, number>
+): Record<ProtocolId, number[]> {
+  const series: Record<ProtocolId, number[]> = {};
+  for (const sample of samples) {
+    for (const [protocol, value] of Object.entries(metric(sample) ?? {})) {
+      if (!series[protocol]) {
+        series[protocol] = [];
+      }
+      series[protocol].push(value);
+    }
+  }
+  return series;
+}
+
+/**
+ * Summarize APY, utilization and spread across samples
+ */
+export function summarizeHistory(samples: YieldSample[]): HistorySummary {
+  const apy: Record<ProtocolId, SeriesStats> = {};
+  for (const [protocol, values] of Object.entries(seriesByProtocol(samples, sample => sample.apys))) {
+    apy[protocol] = summarizeSeries(values);
+  }
+
+  const utilization: Record<ProtocolId, SeriesStats> = {};
+  for (const [protocol, values] of Object.entries(seriesByProtocol(samples, sample => sample.utilization))) {
+    utilization[protocol] = summarizeSeries(values);
+  }
+
+  return {
+    from: samples.length > 0 ? samples[0].timestamp : 0,
+    to: samples.length > 0 ? samples[samples.length - 1].timestamp : 0,
+    samples: samples.length,
+    apy,
+    utilization,
+    difference: summarizeSeries(samples.map(sample => sample.difference)),
+    moves: samples.filter(sample => sample.shouldMove).length
+  };
+}
+
+/**
+ * Average each protocol's APY over recorded samples plus the current reading
+ * Protocols without history keep their current APY
+ * @param samples Samples inside the smoothing window
+ * @param current APYs just fetched, in basis points
+ * @returns Smoothed APYs in basis points (rounded)
+ */
+export function smoothAPYs(
+  samples: YieldSample[],
+  current: Record<ProtocolId, number>
+): Record<ProtocolId, number> {
+  const series = seriesByProtocol(samples, sample => sample.apys);
+  const smoothed: Record<ProtocolId, number> = {};
+
+  for (const [protocol, apy] of Object.entries(current)) {
+    const values = [...(series[protocol] ?? []), apy];
+    smoothed[protocol] = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+
+  return smoothed;
+}
+
+/**
+ * Load samples inside a time window ending now
+ * @param windowSeconds Window length in seconds
+ */
+export function getRecentSamples(windowSeconds: number, source?: SampleSource, asset?: string): YieldSample[] {
+  return readSamples({ from: Date.now() - windowSeconds * 1000, source, asset });
+}
+
+/**
+ * Parse --from/--to (ISO dates), --hours, --source and --asset command line options
+ * Only samples of one asset are summarized, tokenAddress unless --asset is given
+ */
+function parseFilter(args: string[]): SampleFilter {
+  const filter: SampleFilter = {};
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const hours = option('--hours');
+  if (hours) filter.from = Date.now() - parseFloat(hours) * 3600 * 1000;
+
+  const from = option('--from');
+  if (from) filter.from = new Date(from).getTime();
+
+  const to = option('--to');
+  if (to) filter.to = new Date(to).getTime();
+
+  const source = option('--source');
+  if (source) filter.source = source as SampleSource;
+
+  const asset = option('--asset');
+  filter.asset = asset ? parseAssetOption(asset) : loadConfig().tokenAddress;
+
+  return filter;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const filter = parseFilter(args);
+  const samples = readSamples(filter);
+
+  console.log(' Yield History\n');
+  console.log(` File: ${getHistoryFile()}`);
+  console.log(` Asset: ${getAssetLabel(filter.asset!)}`);
+
+  if (samples.length === 0) {
+    console.log(' No samples recorded for this range');
+    return;
+  }
+
+  const summary = summarizeHistory(samples);
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(summary, null, 2));
+    return;
+  }
+
+  const pct = (bp: number) => `${(bp / 100).toFixed(2)}%`;
+  console.log(` Range: ${new Date(summary.from).toISOString()} -> ${new Date(summary.to).toISOString()}`);
+  console.log(` Samples: ${summary.samples} (${summary.moves} rebalance decision(s))\n`);
+
+  for (const [protocol, stats] of Object.entries(summary.apy)) {
+    console.log(` ${protocol} APY: avg ${pct(stats.average)}, min ${pct(stats.min)}, max ${pct(stats.max)}, p50 ${pct(stats.p50)}, p90 ${pct(stats.p90)}`);
+    const utilization = summary.utilization[protocol];
+    if (utilization && utilization.count > 0) {
+      console.log(`   utilization: avg ${pct(utilization.average)}, p90 ${pct(utilization.p90)}`);
+    }
+  }
+  console.log(` Difference: avg ${pct(summary.difference.average)}, p50 ${pct(summary.difference.p50)}, p90 ${pct(summary.difference.p90)}`);
+
+  // Show the inputs behind every rebalance decision
+  const decisions = samples.filter(sample => sample.shouldMove);
+  if (decisions.length > 0) {
+    console.log('\n Rebalance decisions:');
+    for (const sample of decisions) {
+      const apys = Object.entries(sample.apys).map(([protocol, apy]) => `${protocol} ${pct(apy)}`).join(', ');
+      const balances = Object.entries(sample.balances)
+        .filter(([, balance]) => BigInt(balance) > 0n)
+        .map(([protocol, balance]) => `${protocol} ${ethers.formatUnits(balance, sample.decimals ?? 6)}`)
+        .join(', ');
+      console.log(`   ${new Date(sample.timestamp).toISOString()}: ${apys} | difference ${pct(sample.difference)} | balances ${balances || 'none'}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
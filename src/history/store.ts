@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProtocolId } from '../contracts/adapter';
+import { loadConfig } from '../config';
+
+/**
+ * Yield history store
+ * Append-only JSONL file: one sample per line, oldest first, so every run can
+ * record what it saw without rewriting the file
+ */
+
+// Where a sample was recorded
+export type SampleSource = 'optimizer' | 'monitor';
+
+export interface YieldSample {
+  timestamp: number; // milliseconds since epoch
+  source: SampleSource;
+  asset?: string; // token address; samples without one are for tokenAddress
+  decimals?: number; // token decimals, for formatting balances
+  apys: Record<ProtocolId, number>; // basis points
+  utilization: Record<ProtocolId, number>; // basis points
+  balances: Record<ProtocolId, string>; // Safe's balance per venue, token's smallest unit
+  difference: number; // spread the run acted on, basis points
+  shouldMove?: boolean; // decision taken on this sample (optimizer runs only)
+}
+
+export interface SampleFilter {
+  from?: number; // inclusive, milliseconds since epoch
+  to?: number; // inclusive, milliseconds since epoch
+  source?: SampleSource;
+  asset?: string; // token address
+}
+
+/**
+ * Path of the history file
+ */
+export function getHistoryFile(): string {
+  return loadConfig().files.yieldHistory;
+}
+
+/**
+ * Append a sample to the history file
+ * Failures are logged, never thrown: losing a sample must not stop a rebalance check
+ */
+export function appendSample(sample: YieldSample, historyFile: string = getHistoryFile()): void {
+  try {
+    const dir = path.dirname(historyFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.appendFileSync(historyFile, JSON.stringify(sample) + '\n');
+  } catch (error: any) {
+    console.warn(`WARNING: Could not record yield sample to ${historyFile}: ${error.message}`);
+  }
+}
+
+/**
+ * Read samples from the history file, oldest first
+ * Malformed lines (e.g. a partially written last line) are skipped
+ */
+export function readSamples(filter: SampleFilter = {}, historyFile: string = getHistoryFile()): YieldSample[] {
+  if (!fs.existsSync(historyFile)) {
+    return [];
+  }
+
+  const samples: YieldSample[] = [];
+  const tokenAddress = loadConfig().tokenAddress;
+  const lines = fs.readFileSync(historyFile, 'utf8').split('\n');
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+
+    let sample: YieldSample;
+    try {
+      sample = JSON.parse(line);
+    } catch {
+      console.warn(`WARNING: Skipping malformed history line ${i + 1} in ${historyFile}`);
+      return;
+    }
+
+    if (filter.from !== undefined && sample.timestamp < filter.from) return;
+    if (filter.to !== undefined && sample.timestamp > filter.to) return;
+    if (filter.source !== undefined && sample.source !== filter.source) return;
+    if (filter.asset !== undefined && (sample.asset ?? tokenAddress).toLowerCase() !== filter.asset.toLowerCase()) return;
+    samples.push(sample);
+  });
+
+  return samples;
+}
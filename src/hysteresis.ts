@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProtocolId } from './contracts/adapter';
+import { assetStateFile } from './assets';
+import { loadConfig } from './config';
+
+/**
+ * Rebalance hysteresis
+ * Stops funds ping-ponging between venues while rates hover around the threshold:
+ * - a spread arms a move once it reaches the enter threshold, and only disarms below the exit threshold
+ * - the spread must favour the same venue for N consecutive observations
+ * - funds must have stayed in their current venue for a minimum dwell time
+ *
+ * State lives in a JSON file so the monitor API and compareYields see the same history,
+ * one file per asset
+ */
+
+export interface HysteresisConfig {
+  enterThreshold: number; // basis points of spread that arm a move
+  exitThreshold: number; // basis points of spread below which an armed move is dropped
+  confirmations: number; // consecutive observations the spread must persist for
+  minDwellSeconds: number; // minimum time funds stay in a venue before moving again
+  observationSpacingSeconds: number; // observations closer together than this count once
+  stateFile: string;
+}
+
+export interface OptimizerState {
+  currentProtocol: ProtocolId | null; // venue holding the funds, as last observed
+  enteredAt: number; // when funds entered currentProtocol (0 when unknown)
+  candidate: ProtocolId | null; // venue an armed spread favours
+  consecutiveObservations: number;
+  lastObservedAt: number;
+}
+
+export interface HysteresisDecision {
+  allowed: boolean;
+  reason: string;
+  candidate: ProtocolId | null;
+  consecutiveObservations: number;
+  dwellRemainingSeconds: number;
+}
+
+const INITIAL_STATE: OptimizerState = {
+  currentProtocol: null,
+  enteredAt: 0,
+  candidate: null,
+  consecutiveObservations: 0,
+  lastObservedAt: 0
+};
+
+/**
+ * Read hysteresis settings from the optimizer config
+ * Defaults reproduce the plain minYieldDifference check
+ * @param tokenAddress Asset whose state file to use (default: the configured file)
+ * @param safeAddress Safe whose state file to use (default: the configured Safe)
+ */
+export function loadHysteresisConfig(tokenAddress?: string, safeAddress?: string): HysteresisConfig {
+  const { thresholds, files } = loadConfig();
+  return {
+    enterThreshold: thresholds.minYieldDifference,
+    exitThreshold: thresholds.exitYieldDifference ?? thresholds.minYieldDifference,
+    confirmations: thresholds.confirmationObservations,
+    minDwellSeconds: thresholds.minDwellSeconds,
+    observationSpacingSeconds: thresholds.observationSpacingSeconds,
+    stateFile: tokenAddress ? assetStateFile(files.optimizerState, tokenAddress, safeAddress) : files.optimizerState
+  };
+}
+
+/**
+ * Load the shared optimizer state
+ * A missing or unreadable file starts from a clean state
+ */
+export function loadOptimizerState(stateFile: string): OptimizerState {
+  if (!fs.existsSync(stateFile)) {
+    return { ...INITIAL_STATE };
+  }
+
+  try {
+    return { ...INITIAL_STATE, ...JSON.parse(fs.readFileSync(stateFile, 'utf8')) };
+  } catch (error: any) {
+    console.warn(`WARNING: Could not read optimizer state from ${stateFile}: ${error.message}`);
+    return { ...INITIAL_STATE };
+  }
+}
+
+/**
+ * Persist the shared optimizer state
+ * Written to a temporary file first so a concurrent reader never sees a partial file
+ */
+export function saveOptimizerState(stateFile: string, state: OptimizerState): void {
+  const dir = path.dirname(stateFile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpFile = `${stateFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpFile, stateFile);
+}
+
+/**
+ * Record the venue currently holding the funds
+ * A change restarts the dwell timer; the very first observation leaves it
+ * unset, since we cannot know how long funds have already been there
+ * @param protocol Venue holding the funds (null when nothing is deposited)
+ * @param now Current time in milliseconds
+ */
+export function recordVenue(
+  state: OptimizerState,
+  protocol: ProtocolId | null,
+  now: number
+): OptimizerState {
+  if (protocol === state.currentProtocol) {
+    return state;
+  }
+
+  const firstObservation = state.lastObservedAt === 0 && state.currentProtocol === null;
+  return {
+    ...state,
+    currentProtocol: protocol,
+    enteredAt: firstObservation ? 0 : now,
+    candidate: null,
+    consecutiveObservations: 0
+  };
+}
+
+/**
+ * Update the state with one spread observation and decide whether a move may go ahead
+ * @param candidate Venue the spread favours (null when rates are equal)
+ * @param spread Spread in favour of the candidate, in basis points
+ * @param now Current time in milliseconds
+ */
+export function observeSpread(
+  state: OptimizerState,
+  candidate: ProtocolId | null,
+  spread: number,
+  config: HysteresisConfig,
+  now: number
+): { state: OptimizerState; decision: HysteresisDecision } {
+  const counted = now - state.lastObservedAt >= config.observationSpacingSeconds * 1000;
+  const armed = state.candidate !== null && state.candidate === candidate;
+  let next: OptimizerState = { ...state, lastObservedAt: counted ? now : state.lastObservedAt };
+  let reason: string;
+
+  if (candidate === null || candidate === state.currentProtocol) {
+    next = { ...next, candidate: null, consecutiveObservations: 0 };
+    reason = 'Funds are already in the best venue';
+  } else if (armed && spread >= config.exitThreshold) {
+    next = { ...next, consecutiveObservations: state.consecutiveObservations + (counted ? 1 : 0) };
+    reason = `Spread of ${spread} bp holds above the exit threshold of ${config.exitThreshold} bp`;
+  } else if (spread >= config.enterThreshold) {
+    next = { ...next, candidate, consecutiveObservations: 1 };
+    reason = `Spread of ${spread} bp reached the enter threshold of ${config.enterThreshold} bp`;
+  } else {
+    next = { ...next, candidate: null, consecutiveObservations: 0 };
+    const threshold = armed ? config.exitThreshold : config.enterThreshold;
+    reason = `Spread of ${spread} bp is below the ${armed ? 'exit' : 'enter'} threshold of ${threshold} bp`;
+  }
+
+  const dwellElapsed = next.enteredAt === 0 ? Infinity : (now - next.enteredAt) / 1000;
+  const dwellRemainingSeconds = Math.max(Math.ceil(config.minDwellSeconds - dwellElapsed), 0);
+  const confirmed = next.candidate !== null && next.consecutiveObservations >= config.confirmations;
+
+  if (next.candidate !== null && !confirmed) {
+    reason = `Spread seen ${next.consecutiveObservations}/${config.confirmations} consecutive observations`;
+  } else if (confirmed && dwellRemainingSeconds > 0) {
+    reason = `Funds must stay in ${next.currentProtocol} for another ${dwellRemainingSeconds}s`;
+  }
+
+  return {
+    state: next,
+    decision: {
+      allowed: confirmed && dwellRemainingSeconds === 0,
+      reason,
+      candidate: next.candidate,
+      consecutiveObservations: next.consecutiveObservations,
+      dwellRemainingSeconds
+    }
+  };
+}
@@ -0,0 +1,386 @@
+import { ethers } from 'ethers';
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+// Import TriggerX SDK
+let TriggerXClient: any;
+let createJob: any;
+let deleteJob: any;
+let getJobDataById: any;
+let getUserData: any;
+let ArgType: any;
+
+try {
+  const triggerxSDK = require('sdk-triggerx');
+  TriggerXClient = triggerxSDK.TriggerXClient;
+  createJob = triggerxSDK.createJob;
+  deleteJob = triggerxSDK.deleteJob;
+  getJobDataById = triggerxSDK.getJobDataById;
+  getUserData = triggerxSDK.getUserData;
+  ArgType = triggerxSDK.ArgType;
+} catch (error: any) {
+  if (error.code === 'MODULE_NOT_FOUND') {
+    console.error('\nERROR: TriggerX SDK not installed!\n');
+    console.error('Install it with:');
+    console.error('  npm install sdk-triggerx\n');
+    process.exit(1);
+  }
+  throw error;
+}
+
+import { StoredJob, loadJobs, getStoredJob, recordJob, setJobStatus, getJobsFile } from './store';
+import { generateRebalanceTransactions, bundleForJob, extractJobId } from '../triggerx-yield-optimizer';
+import { OPERATION_DELEGATECALL, decodeMultiSend } from '../multisend';
+import { getAssetAddresses } from '../assets';
+import { authorizeUrl } from '../apiGuard';
+import { connect, loadConfig } from '../config';
+
+/**
+ * TriggerX job lifecycle
+ *
+ *   list      jobs in the local store with their TriggerX status and the TG balance
+ *   inspect   one job: stored input, TriggerX status and recent executions
+ *   update    change threshold, timeframe or static transactions (recreates the job)
+ *   pause     delete the job on TriggerX but keep it for resume
+ *   resume    recreate a paused job
+ *   delete    delete the job for good
+ *   renew     recreate jobs expiring soon, before JOB_DURATION runs out
+ *
+ * The SDK only creates and deletes jobs, so update/resume/renew create the new
+ * job first and delete the old one afterwards: the Safe is never left unwatched
+ */
+
+interface JobsContext {
+  client: any;
+  signer: ethers.Wallet;
+  provider: ethers.JsonRpcProvider;
+}
+
+/**
+ * Value following a command line option
+ */
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Whole-number value of a command line option
+ * Checked before anything is deleted, so a typo never leaves a job half-replaced
+ * @throws If the option is present without an integer of at least `min`
+ */
+function integerOption(args: string[], name: string, min: number = 0): number | undefined {
+  const value = option(args, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value) || parseInt(value) < min) {
+    throw new Error(`${name} expects a whole number of at least ${min}, got "${value}"`);
+  }
+  return parseInt(value);
+}
+
+/**
+ * Format a duration in seconds as days/hours
+ */
+function formatDuration(seconds: number): string {
+  if (seconds <= 0) return 'expired';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+/**
+ * Format a TriggerX balance (wei as a number or bigint; plain numbers are already in units)
+ */
+function formatBalance(value: bigint | number | string | undefined): string {
+  if (value === undefined || value === null) return '0';
+  if (typeof value === 'number' && !Number.isInteger(value)) return value.toString();
+  return ethers.formatEther(BigInt(value));
+}
+
+/**
+ * Create a job from a stored one, with changed input fields
+ * @returns New job ID
+ */
+async function recreateJob(ctx: JobsContext, job: StoredJob, changes: Record<string, any>): Promise<string> {
+  const jobInput = { ...job.jobInput, ...changes };
+  // Signed URLs expire with the job they were made for; sign them again for the new one
+  for (const field of ['valueSourceUrl', 'dynamicArgumentsScriptUrl']) {
+    if (jobInput[field]) {
+      jobInput[field] = authorizeUrl(jobInput[field], jobInput.timeFrame);
+    }
+  }
+  const submittedInput = JSON.parse(JSON.stringify(jobInput));
+
+  const result = await createJob(ctx.client, { jobInput, signer: ctx.signer });
+  const jobId = extractJobId(result);
+  if (!jobId) {
+    throw new Error(`createJob did not return a job ID: ${JSON.stringify(result)}`);
+  }
+
+  recordJob(jobId, submittedInput);
+  return String(jobId);
+}
+
+/**
+ * Delete a job on TriggerX
+ * @throws If TriggerX refuses the deletion
+ */
+async function removeJob(ctx: JobsContext, job: StoredJob): Promise<void> {
+  const result = await deleteJob(ctx.client, job.jobId, ctx.signer, job.chainId);
+  if (!result?.success) {
+    throw new Error(`Could not delete job ${job.jobId}: ${result?.error || 'unknown error'}`);
+  }
+}
+
+/**
+ * Replace a job by a recreated one, then delete the old job
+ * If the old job cannot be deleted both stay live, and the old one stays in the store
+ * @returns New job ID
+ */
+async function replaceJob(ctx: JobsContext, job: StoredJob, changes: Record<string, any>): Promise<string> {
+  const newJobId = await recreateJob(ctx, job, changes);
+  console.log(`SUCCESS: Created job ${newJobId}`);
+
+  try {
+    await removeJob(ctx, job);
+  } catch (error: any) {
+    console.log(`WARNING: ${error.message}`);
+    console.log(`   Both jobs are live; delete the old one with: npm run jobs -- delete ${job.jobId}`);
+    return newJobId;
+  }
+
+  setJobStatus(job.jobId, 'replaced', newJobId);
+  console.log(`SUCCESS: Deleted job ${job.jobId} (replaced by ${newJobId})`);
+  return newJobId;
+}
+
+async function listJobs(ctx: JobsContext, args: string[]): Promise<void> {
+  const jobs = loadJobs().filter(job => args.includes('--all') || job.status === 'active' || job.status === 'paused');
+  const owner = ctx.signer.address;
+
+  console.log(' TriggerX Jobs\n');
+  console.log(` Store: ${getJobsFile()}`);
+  console.log(` Owner: ${owner}`);
+
+  const user = await getUserData(ctx.client, owner).catch((error: any) => ({ success: false, error: error.message }));
+  if (user?.success && user.data) {
+    console.log(` TG balance: ${formatBalance(user.data.token_balance)} TG`);
+    console.log(` ETH balance (TriggerX): ${formatBalance(user.data.ether_balance)} ETH`);
+  } else {
+    console.log(` TG balance: unavailable (${user?.error || 'no user data'})`);
+  }
+  console.log('');
+
+  if (jobs.length === 0) {
+    console.log(' No jobs recorded (use --all to include deleted and replaced jobs)');
+    return;
+  }
+
+  for (const job of jobs) {
+    let remote = 'unknown';
+    let lastRun = 'never';
+    let executions = 0;
+    if (job.status === 'active') {
+      const result = await getJobDataById(ctx.client, job.jobId, owner).catch(() => null);
+      if (result?.success && result.data) {
+        remote = result.data.jobData.status;
+        executions = result.data.taskData?.length ?? 0;
+        if (result.data.jobData.last_executed_at) {
+          lastRun = new Date(result.data.jobData.last_executed_at).toISOString();
+        }
+      }
+    }
+
+    const expiresIn = Math.floor((job.expiresAt - Date.now()) / 1000);
+    console.log(` ${job.jobId}  ${job.title}`);
+    console.log(`   status: ${job.status}${job.status === 'active' ? ` (TriggerX: ${remote})` : ''}${job.replacedBy ? ` -> ${job.replacedBy}` : ''}`);
+    console.log(`   threshold: ${job.jobInput.upperLimit} bp, args: ${job.jobInput.argType}, chain ${job.chainId}`);
+    if (job.status === 'active') {
+      console.log(`   expires: ${new Date(job.expiresAt).toISOString()} (${formatDuration(expiresIn)}), executions: ${executions}, last: ${lastRun}`);
+    }
+  }
+}
+
+async function inspectJob(ctx: JobsContext, jobId: string): Promise<void> {
+  const job = getStoredJob(jobId);
+  const { safeTransactions, ...input } = job.jobInput;
+
+  console.log(` Job ${job.jobId}\n`);
+  console.log(` Local status: ${job.status}${job.replacedBy ? ` (replaced by ${job.replacedBy})` : ''}`);
+  console.log(` Created: ${new Date(job.createdAt).toISOString()}`);
+  console.log(` Expires: ${new Date(job.expiresAt).toISOString()}`);
+  console.log(` Input: ${JSON.stringify(input, null, 2)}`);
+  if (safeTransactions) {
+    console.log(` Safe transactions: ${safeTransactions.length}`);
+    for (const tx of safeTransactions) {
+      const isBundle = tx.operation === OPERATION_DELEGATECALL;
+      console.log(`   -> ${tx.to} (${ethers.dataLength(tx.data)} bytes${isBundle ? ', MultiSend' : ''})`);
+      if (isBundle) {
+        for (const step of decodeMultiSend(tx.data)) {
+          console.log(`      -> ${step.to} (${ethers.dataLength(step.data)} bytes)`);
+        }
+      }
+    }
+  }
+
+  const result = await getJobDataById(ctx.client, job.jobId, ctx.signer.address);
+  if (!result?.success || !result.data) {
+    console.log(`\n TriggerX: unavailable (${result?.error || 'no data'})`);
+    return;
+  }
+
+  const { jobData, taskData } = result.data;
+  console.log(`\n TriggerX status: ${jobData.status}`);
+  console.log(` Cost: predicted ${jobData.job_cost_prediction}, actual ${jobData.job_cost_actual}`);
+  console.log(` Executions: ${taskData.length}`);
+  for (const task of taskData.slice(-5)) {
+    console.log(`   #${task.task_number} ${new Date(task.execution_timestamp).toISOString()} ${task.task_status} ${task.execution_tx_hash || ''}`);
+  }
+}
+
+async function updateJob(ctx: JobsContext, jobId: string, args: string[]): Promise<void> {
+  const job = getStoredJob(jobId);
+  if (job.status !== 'active') {
+    throw new Error(`Job ${jobId} is ${job.status}; only active jobs can be updated`);
+  }
+
+  const changes: Record<string, any> = {};
+  const threshold = integerOption(args, '--threshold');
+  if (threshold !== undefined) changes.upperLimit = threshold;
+
+  const timeframe = integerOption(args, '--timeframe', 1);
+  if (timeframe !== undefined) changes.timeFrame = timeframe;
+
+  if (args.includes('--refresh-transactions')) {
+    if (job.jobInput.argType === ArgType.Dynamic) {
+      throw new Error('Dynamic jobs get fresh transactions from their script URL; nothing to refresh');
+    }
+    const config = loadConfig();
+    const transactions = await generateRebalanceTransactions(ctx.provider, {
+      safeAddress: job.jobInput.safeAddress,
+      assets: getAssetAddresses(),
+      minYieldDifference: changes.upperLimit ?? job.jobInput.upperLimit,
+      checkInterval: config.job.checkInterval,
+      jobDuration: changes.timeFrame ?? job.jobInput.timeFrame,
+      monitorApiUrl: job.jobInput.valueSourceUrl
+    });
+    if (transactions.length === 0) {
+      throw new Error('No rebalance needed right now; there are no transactions to put in the job');
+    }
+    changes.safeTransactions = bundleForJob(transactions);
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw new Error('Nothing to update: pass --threshold <bp>, --timeframe <seconds> or --refresh-transactions');
+  }
+
+  console.log(`Updating job ${jobId}: ${Object.keys(changes).join(', ')}`);
+  await replaceJob(ctx, job, changes);
+}
+
+async function pauseJob(ctx: JobsContext, jobId: string): Promise<void> {
+  const job = getStoredJob(jobId);
+  if (job.status !== 'active') {
+    throw new Error(`Job ${jobId} is ${job.status}, not active`);
+  }
+
+  await removeJob(ctx, job);
+  setJobStatus(jobId, 'paused');
+  console.log(`SUCCESS: Paused job ${jobId} (resume with: npm run jobs -- resume ${jobId})`);
+}
+
+async function resumeJob(ctx: JobsContext, jobId: string): Promise<void> {
+  const job = getStoredJob(jobId);
+  if (job.status !== 'paused') {
+    throw new Error(`Job ${jobId} is ${job.status}, not paused`);
+  }
+
+  const newJobId = await recreateJob(ctx, job, {});
+  setJobStatus(jobId, 'replaced', newJobId);
+  console.log(`SUCCESS: Resumed job ${jobId} as ${newJobId}`);
+}
+
+async function removeStoredJob(ctx: JobsContext, jobId: string): Promise<void> {
+  const job = getStoredJob(jobId);
+  if (job.status === 'active') {
+    await removeJob(ctx, job);
+  }
+  setJobStatus(jobId, 'deleted');
+  console.log(`SUCCESS: Deleted job ${jobId}`);
+}
+
+/**
+ * Recreate active jobs that expire within the renewal window
+ * Meant to run from cron; the new jobs keep their input and timeframe
+ */
+async function renewJobs(ctx: JobsContext, args: string[]): Promise<void> {
+  const windowSeconds = integerOption(args, '--within') ?? loadConfig().job.renewWindow;
+  const deadline = Date.now() + windowSeconds * 1000;
+  const expiring = loadJobs().filter(job => job.status === 'active' && job.expiresAt <= deadline);
+
+  if (expiring.length === 0) {
+    console.log(`INFO: No active job expires within ${formatDuration(windowSeconds)}`);
+    return;
+  }
+
+  for (const job of expiring) {
+    console.log(`Renewing job ${job.jobId} (expires ${new Date(job.expiresAt).toISOString()})`);
+    await replaceJob(ctx, job, {});
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const [command, jobId] = args;
+
+  const usage = () => {
+    console.log('Usage: npm run jobs -- <command>');
+    console.log('   list [--all]');
+    console.log('   inspect <jobId>');
+    console.log('   update <jobId> [--threshold <bp>] [--timeframe <seconds>] [--refresh-transactions]');
+    console.log('   pause <jobId> | resume <jobId> | delete <jobId>');
+    console.log('   renew [--within <seconds>]');
+  };
+
+  if (!command) {
+    usage();
+    return;
+  }
+  if (['inspect', 'update', 'pause', 'resume', 'delete'].includes(command) && (!jobId || jobId.startsWith('--'))) {
+    throw new Error(`${command} needs a job ID`);
+  }
+
+  if (!process.env.PRIVATE_KEY || !process.env.TRIGGERX_API_KEY) {
+    throw new Error('PRIVATE_KEY and TRIGGERX_API_KEY must be set in .env');
+  }
+
+  const { provider } = await connect();
+  const ctx: JobsContext = {
+    client: new TriggerXClient(process.env.TRIGGERX_API_KEY),
+    signer: new ethers.Wallet(process.env.PRIVATE_KEY, provider),
+    provider
+  };
+
+  switch (command) {
+    case 'list': return listJobs(ctx, args);
+    case 'inspect': return inspectJob(ctx, jobId);
+    case 'update': return updateJob(ctx, jobId, args);
+    case 'pause': return pauseJob(ctx, jobId);
+    case 'resume': return resumeJob(ctx, jobId);
+    case 'delete': return removeStoredJob(ctx, jobId);
+    case 'renew': return renewJobs(ctx, args);
+    default:
+      usage();
+      process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig } from '../config';
+
+/**
+ * Local TriggerX job store
+ * Remembers the jobs created from this machine together with the exact input
+ * they were created with, so they can be recreated: TriggerX has no update or
+ * pause endpoint, so updates, pauses and renewals delete and recreate jobs
+ */
+
+// active: live on TriggerX; paused: deleted but resumable; replaced: superseded by replacedBy
+export type JobStatus = 'active' | 'paused' | 'replaced' | 'deleted';
+
+export interface StoredJob {
+  jobId: string;
+  chainId: string;
+  title: string;
+  status: JobStatus;
+  createdAt: number; // milliseconds since epoch
+  expiresAt: number; // createdAt + timeFrame, milliseconds since epoch
+  jobInput: Record<string, any>; // createJob input, minus the signer
+  replacedBy?: string;
+  updatedAt?: number;
+}
+
+/**
+ * Path of the job store
+ */
+export function getJobsFile(): string {
+  return loadConfig().files.jobs;
+}
+
+/**
+ * Load every stored job, oldest first
+ * A missing file is an empty store; an unreadable one is an error, never an empty
+ * store, as saving over it would lose the jobs needed to update or delete them
+ * @throws If the file is not a JSON list of jobs
+ */
+export function loadJobs(jobsFile: string = getJobsFile()): StoredJob[] {
+  if (!fs.existsSync(jobsFile)) {
+    return [];
+  }
+
+  let jobs: unknown;
+  try {
+    jobs = JSON.parse(fs.readFileSync(jobsFile, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Could not read the job store ${jobsFile}: ${error.message}. Fix or move the file (it is not overwritten)`);
+  }
+  if (!Array.isArray(jobs)) {
+    throw new Error(`Job store ${jobsFile} is not a list of jobs. Fix or move the file (it is not overwritten)`);
+  }
+  return jobs;
+}
+
+/**
+ * Persist the job store
+ * Written to a temporary file first so a concurrent reader never sees a partial file
+ */
+export function saveJobs(jobs: StoredJob[], jobsFile: string = getJobsFile()): void {
+  const dir = path.dirname(jobsFile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const tmpFile = `${jobsFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(jobs, null, 2));
+  fs.renameSync(tmpFile, jobsFile);
+}
+
+/**
+ * Record a newly created job
+ * Failures are logged, never thrown: the job exists on TriggerX either way
+ * @param jobInput Input the job was created with (timeFrame in seconds)
+ */
+export function recordJob(
+  jobId: string,
+  jobInput: Record<string, any>,
+  now: number = Date.now(),
+  jobsFile: string = getJobsFile()
+): StoredJob {
+  const job: StoredJob = {
+    jobId,
+    chainId: String(jobInput.chainId),
+    title: jobInput.jobTitle,
+    status: 'active',
+    createdAt: now,
+    expiresAt: now + Number(jobInput.timeFrame) * 1000,
+    jobInput
+  };
+
+  try {
+    saveJobs([...loadJobs(jobsFile).filter(stored => stored.jobId !== jobId), job], jobsFile);
+  } catch (error: any) {
+    console.warn(`WARNING: Could not record job ${jobId} in ${jobsFile}: ${error.message}`);
+  }
+  return job;
+}
+
+/**
+ * Find a stored job by id
+ * @throws If the job was not created from this store
+ */
+export function getStoredJob(jobId: string, jobsFile: string = getJobsFile()): StoredJob {
+  const job = loadJobs(jobsFile).find(stored => stored.jobId === jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} is not in ${jobsFile}`);
+  }
+  return job;
+}
+
+/**
+ * Change the status of a stored job
+ * @param replacedBy Job superseding this one (status 'replaced')
+ */
+export function setJobStatus(
+  jobId: string,
+  status: JobStatus,
+  replacedBy?: string,
+  jobsFile: string = getJobsFile()
+): void {
+  const jobs = loadJobs(jobsFile);
+  const job = jobs.find(stored => stored.jobId === jobId);
+  if (!job) {
+    throw new Error(`Job ${jobId} is not in ${jobsFile}`);
+  }
+
+  job.status = status;
+  job.updatedAt = Date.now();
+  if (replacedBy) {
+    job.replacedBy = replacedBy;
+  }
+  saveJobs(jobs, jobsFile);
+}
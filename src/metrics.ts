@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+
+/**
+ * Metrics
+ * In-process counters and gauges, rendered in the Prometheus text format by the
+ * /metrics route of src/server.ts. Values live as long as the process (one
+ * serverless instance on Vercel)
+ *
+ * Gauges are set where the value is read (APYs by compareYields); collectors
+ * refresh the rest on every scrape (Safe balances, see addMetricsCollector)
+ */
+
+export type MetricType = 'counter' | 'gauge';
+
+export type MetricLabels = Record<string, string>;
+
+export interface Metric {
+  name: string;
+  type: MetricType;
+  help: string;
+  series: Map<string, { labels: MetricLabels; value: number }>; // by rendered label set
+}
+
+const metrics = new Map<string, Metric>();
+
+// Refreshed before every render, by name
+const collectors = new Map<string, () => Promise<void>>();
+
+/**
+ * Declare a metric (declaring the same name again returns the existing one)
+ */
+export function defineMetric(type: MetricType, name: string, help: string): Metric {
+  let metric = metrics.get(name);
+  if (!metric) {
+    metric = { name, type, help, series: new Map() };
+    metrics.set(name, metric);
+  }
+  return metric;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function renderLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length === 0 ? '' : `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function getSeries(metric: Metric, labels: MetricLabels) {
+  const key = renderLabels(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, value: 0 };
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+/**
+ * Add to a counter
+ */
+export function incrementMetric(metric: Metric, labels: MetricLabels = {}, amount: number = 1): void {
+  getSeries(metric, labels).value += amount;
+}
+
+/**
+ * Set a gauge
+ */
+export function setMetric(metric: Metric, labels: MetricLabels, value: number): void {
+  getSeries(metric, labels).value = value;
+}
+
+/**
+ * Register a function refreshing metrics before every scrape
+ */
+export function addMetricsCollector(name: string, collect: () => Promise<void>): void {
+  collectors.set(name, collect);
+}
+
+/**
+ * Run every collector
+ * A failing collector keeps its previous values and reports optimizer_collector_up 0
+ */
+export async function collectMetrics(): Promise<void> {
+  const names = [...collectors.keys()];
+  const results = await Promise.allSettled([...collectors.values()].map(collect => collect()));
+  results.forEach((result, i) => {
+    setMetric(collectorUp, { collector: names[i] }, result.status === 'fulfilled' ? 1 : 0);
+    if (result.status === 'rejected') {
+      console.warn(`WARNING: Metrics collector ${names[i]} failed: ${result.reason?.shortMessage || result.reason?.message || result.reason}`);
+    }
+  });
+}
+
+/**
+ * Render every metric in the Prometheus text exposition format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    for (const [labels, series] of metric.series) {
+      lines.push(`${metric.name}${labels} ${series.value}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// API endpoints (recorded by withApiGuard)
+export const apiRequests = defineMetric('counter', 'optimizer_api_requests_total', 'API requests by endpoint and HTTP status');
+export const apiRequestSeconds = defineMetric('counter', 'optimizer_api_request_seconds_total', 'Time spent answering API requests, by endpoint');
+
+// Yields and positions
+export const protocolApy = defineMetric('gauge', 'optimizer_protocol_apy_bps', 'Latest supply APY read per asset and protocol, basis points');
+export const protocolUtilization = defineMetric('gauge', 'optimizer_protocol_utilization_bps', 'Latest market utilization per asset and protocol, basis points');
+export const safeBalance = defineMetric('gauge', 'optimizer_safe_balance', 'Safe balance per asset and venue (wallet, aave, compound), token units');
+export const ethBalance = defineMetric('gauge', 'optimizer_eth_balance', 'ETH available for gas per wallet (safe, job_owner)');
+
+// Events
+export const rebalancesTriggered = defineMetric('counter', 'optimizer_rebalances_triggered_total', 'Rebalances handed to TriggerX by api/rebalance, per asset');
+export const rpcErrors = defineMetric('counter', 'optimizer_rpc_errors_total', 'Failed RPC requests by method and kind (transport, or an error response other than a revert)');
+export const monitorFallbacks = defineMetric('counter', 'optimizer_monitor_fallbacks_total', 'Monitor API answers without a value, by status (503 rejected rates, 500 failure)');
+export const collectorUp = defineMetric('gauge', 'optimizer_collector_up', 'Whether the last scrape-time refresh of a collector succeeded');
+
+/**
+ * JSON-RPC provider counting failed requests in optimizer_rpc_errors_total
+ * Reverts are answers, not failures (simulations expect some), so they are not counted
+ */
+export class MeteredJsonRpcProvider extends ethers.JsonRpcProvider {
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const requests = Array.isArray(payload) ? payload : [payload];
+    let results: ethers.JsonRpcResult[];
+    try {
+      results = await super._send(payload);
+    } catch (error) {
+      for (const request of requests) {
+        incrementMetric(rpcErrors, { method: request.method, kind: 'transport' });
+      }
+      throw error;
+    }
+
+    for (const result of results as (ethers.JsonRpcResult | ethers.JsonRpcError)[]) {
+      if ('error' in result && result.error.code !== 3 && !/revert/i.test(result.error.message ?? '')) {
+        const method = requests.find(request => request.id === result.id)?.method ?? 'unknown';
+        incrementMetric(rpcErrors, { method, kind: 'response' });
+      }
+    }
+    return results;
+  }
+}
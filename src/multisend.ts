@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import { SafeTransaction } from './contracts/adapter';
+import { loadConfig } from './config';
+
+/**
+ * Safe MultiSendCallOnly encoding
+ * Packs several Safe transactions into one multiSend call, executed by the Safe
+ * with DELEGATECALL so every step runs as the Safe and all revert together
+ *
+ * Each packed transaction (see foundry/src/interfaces/IMultiSendCallOnly.sol):
+ * operation (1 byte) | to (20 bytes) | value (32 bytes) | data length (32 bytes) | data
+ */
+
+export function getMultiSendAddress(): string {
+  return loadConfig().contracts.multisendCallOnly;
+}
+
+export const OPERATION_CALL = 0;
+export const OPERATION_DELEGATECALL = 1;
+
+const MULTISEND_ABI = [
+  'function multiSend(bytes transactions) payable'
+];
+
+const multiSendInterface = new ethers.Interface(MULTISEND_ABI);
+
+/**
+ * Pack transactions in the MultiSend format
+ * MultiSendCallOnly rejects DELEGATECALL steps, so every step must be a CALL
+ * @returns Packed transactions (the `transactions` argument of multiSend)
+ */
+export function packMultiSendTransactions(transactions: SafeTransaction[]): string {
+  return ethers.concat(transactions.map(tx => {
+    const operation = tx.operation ?? OPERATION_CALL;
+    if (operation !== OPERATION_CALL) {
+      throw new Error(`MultiSendCallOnly only supports CALL steps (got operation ${operation} to ${tx.to})`);
+    }
+
+    const data = ethers.getBytes(tx.data);
+    return ethers.solidityPacked(
+      ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+      [operation, tx.to, BigInt(tx.value), data.length, data]
+    );
+  }));
+}
+
+/**
+ * Unpack transactions packed in the MultiSend format
+ * @param packed Packed transactions (the `transactions` argument of multiSend)
+ */
+export function unpackMultiSendTransactions(packed: string): SafeTransaction[] {
+  const bytes = ethers.getBytes(packed);
+  const transactions: SafeTransaction[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 85 > bytes.length) {
+      throw new Error(`Truncated MultiSend transaction at byte ${offset}`);
+    }
+
+    const operation = bytes[offset];
+    const to = ethers.getAddress(ethers.hexlify(bytes.slice(offset + 1, offset + 21)));
+    const value = ethers.toBigInt(bytes.slice(offset + 21, offset + 53));
+    const dataLength = Number(ethers.toBigInt(bytes.slice(offset + 53, offset + 85)));
+    const dataEnd = offset + 85 + dataLength;
+    if (dataEnd > bytes.length) {
+      throw new Error(`MultiSend transaction at byte ${offset} declares ${dataLength} bytes of data past the end`);
+    }
+
+    transactions.push({
+      to,
+      value: value.toString(),
+      data: ethers.hexlify(bytes.slice(offset + 85, dataEnd)),
+      operation
+    });
+    offset = dataEnd;
+  }
+
+  return transactions;
+}
+
+/**
+ * Encode a multiSend call bundling the transactions
+ * @returns Calldata for MultiSendCallOnly.multiSend
+ */
+export function encodeMultiSend(transactions: SafeTransaction[]): string {
+  return multiSendInterface.encodeFunctionData('multiSend', [packMultiSendTransactions(transactions)]);
+}
+
+/**
+ * Decode multiSend calldata back into its transactions
+ * @param data Calldata for MultiSendCallOnly.multiSend
+ */
+export function decodeMultiSend(data: string): SafeTransaction[] {
+  const [packed] = multiSendInterface.decodeFunctionData('multiSend', data);
+  return unpackMultiSendTransactions(packed);
+}
+
+/**
+ * Bundle transactions into a single atomic Safe transaction
+ * The Safe must execute it with DELEGATECALL (operation 1) to MultiSendCallOnly
+ */
+export function buildMultiSendTransaction(transactions: SafeTransaction[]): SafeTransaction {
+  if (transactions.length === 0) {
+    throw new Error('Cannot bundle an empty list of transactions');
+  }
+
+  return {
+    to: getMultiSendAddress(),
+    value: '0',
+    data: encodeMultiSend(transactions),
+    operation: OPERATION_DELEGATECALL
+  };
+}
+
+/**
+ * The single Safe transaction executing the steps
+ * A single transaction is executed directly with CALL; several are bundled into
+ * one MultiSend executed with DELEGATECALL (the same choice the TriggerX SDK makes)
+ */
+export function buildSafeAction(transactions: SafeTransaction[]): SafeTransaction {
+  const action = transactions.length === 1 ? transactions[0] : buildMultiSendTransaction(transactions);
+  return { ...action, operation: action.operation ?? OPERATION_CALL };
+}
+
+/**
+ * Arguments for TriggerXSafeModule.execJobFromHub executing the transactions
+ * @returns [safeAddress, actionTarget, actionValue, actionData, operation, jobOwner]
+ */
+export function buildExecJobFromHubArguments(
+  safeAddress: string,
+  transactions: SafeTransaction[],
+  jobOwner: string
+): [string, string, string, string, number, string] {
+  const action = buildSafeAction(transactions);
+  return [
+    safeAddress,
+    action.to,
+    action.value,
+    action.data,
+    action.operation ?? OPERATION_CALL,
+    jobOwner
+  ];
+}
@@ -0,0 +1,105 @@
+/**
+ * Shared rate conversion for every protocol
+ * All math is done on bigints in RAY (1e27) precision and only converted to
+ * basis points at the end, so Aave and Compound numbers are directly comparable
+ *
+ * - Aave V3 `liquidityRate` is an annual rate (APR) in RAY
+ * - Compound V3 `getSupplyRate` is a per-second rate in WAD (1e18)
+ * - APY compounds the per-second rate over a 365-day year, as both protocols accrue per second
+ */
+
+export const WAD = 10n ** 18n;
+export const RAY = 10n ** 27n;
+export const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+const HALF_RAY = RAY / 2n;
+const WAD_TO_RAY = RAY / WAD;
+
+// Supply rate of a protocol in basis points (e.g., 500 = 5%)
+export interface SupplyRate {
+  apr: number;
+  apy: number;
+}
+
+/**
+ * Multiply two RAY values, rounding half up
+ */
+export function rayMul(a: bigint, b: bigint): bigint {
+  return (a * b + HALF_RAY) / RAY;
+}
+
+/**
+ * Raise a RAY value to an integer power (exponentiation by squaring)
+ */
+export function rayPow(base: bigint, exponent: bigint): bigint {
+  let result = RAY;
+  let x = base;
+  let n = exponent;
+
+  while (n > 0n) {
+    if (n % 2n === 1n) {
+      result = rayMul(result, x);
+    }
+    x = rayMul(x, x);
+    n /= 2n;
+  }
+
+  return result;
+}
+
+/**
+ * Compound an annual rate per second over a year
+ * @param aprRay APR in RAY
+ * @returns APY in RAY
+ */
+export function aprToApy(aprRay: bigint): bigint {
+  const ratePerSecond = aprRay / SECONDS_PER_YEAR;
+  return rayPow(RAY + ratePerSecond, SECONDS_PER_YEAR) - RAY;
+}
+
+/**
+ * Annualize a per-second rate without compounding
+ * @param ratePerSecondWad Per-second rate in WAD
+ * @returns APR in RAY
+ */
+export function perSecondRateToApr(ratePerSecondWad: bigint): bigint {
+  return ratePerSecondWad * WAD_TO_RAY * SECONDS_PER_YEAR;
+}
+
+/**
+ * Compound a per-second rate over a year
+ * @param ratePerSecondWad Per-second rate in WAD
+ * @returns APY in RAY
+ */
+export function perSecondRateToApy(ratePerSecondWad: bigint): bigint {
+  return rayPow(RAY + ratePerSecondWad * WAD_TO_RAY, SECONDS_PER_YEAR) - RAY;
+}
+
+/**
+ * Convert a RAY rate to basis points (rounded down)
+ */
+export function rayToBasisPoints(rateRay: bigint): number {
+  return Number((rateRay * 10000n) / RAY);
+}
+
+/**
+ * Supply rate from an Aave V3 reserve `liquidityRate`
+ * @param liquidityRate Annual rate in RAY
+ */
+export function aaveSupplyRate(liquidityRate: bigint): SupplyRate {
+  return {
+    apr: rayToBasisPoints(liquidityRate),
+    apy: rayToBasisPoints(aprToApy(liquidityRate))
+  };
+}
+
+/**
+ * Supply rate from a Compound V3 Comet `getSupplyRate`
+ * @param supplyRatePerSecond Per-second rate in WAD
+ */
+export function compoundSupplyRate(supplyRatePerSecond: bigint): SupplyRate {
+  return {
+    apr: rayToBasisPoints(perSecondRateToApr(supplyRatePerSecond)),
+    apy: rayToBasisPoints(perSecondRateToApy(supplyRatePerSecond))
+  };
+}
@@ -0,0 +1,228 @@
+import { ethers } from 'ethers';
+import { ProtocolId, SafeTransaction, WITHDRAW_ALL, encodeApprovalTransaction } from './contracts/adapter';
+import { getAdapter } from './contracts/registry';
+import { ERC20_ABI } from './contracts/aave';
+import { TargetWeights } from './strategy';
+
+// Amount moved out of or into a single protocol (token's smallest unit, as a string)
+export interface AllocationChange {
+  protocol: ProtocolId;
+  amount: string;
+  withdrawAll?: boolean; // exit the position entirely; `amount` is the balance when planned
+}
+
+// Withdrawals are executed first, then every supply is approved and deposited
+export interface RebalancePlan {
+  withdrawals: AllocationChange[];
+  supplies: AllocationChange[];
+}
+
+// Funds held by the Safe in one protocol
+export interface ProtocolPosition {
+  protocol: ProtocolId;
+  name: string;
+  apy: number;
+  balance: string;
+}
+
+/**
+ * Plan moving every position that trails the best protocol by at least
+ * `minYieldDifference` into the best protocol
+ * @param positions Per-protocol balances of the Safe
+ * @param bestProtocol Highest-yielding protocol
+ * @param bestAPY APY of the best protocol in basis points
+ * @param minYieldDifference Minimum APY gain (basis points) for a position to be moved
+ */
+export function planConsolidation(
+  positions: ProtocolPosition[],
+  bestProtocol: ProtocolId,
+  bestAPY: number,
+  minYieldDifference: number
+): RebalancePlan {
+  const withdrawals = positions
+    .filter(position => {
+      const gain = bestAPY - position.apy;
+      return position.protocol !== bestProtocol &&
+        BigInt(position.balance) > 0n &&
+        gain > 0 &&
+        gain >= minYieldDifference;
+    })
+    .map(position => ({ protocol: position.protocol, amount: position.balance, withdrawAll: true }));
+
+  const total = withdrawals.reduce((sum, withdrawal) => sum + BigInt(withdrawal.amount), 0n);
+  const supplies = total > 0n ? [{ protocol: bestProtocol, amount: total.toString() }] : [];
+
+  return { withdrawals, supplies };
+}
+
+/**
+ * Plan the delta moves bringing the Safe's positions to target weights
+ * Only protocols off target get a withdrawal or supply, so funds already
+ * in the right place are never touched
+ * @param positions Per-protocol balances of the Safe
+ * @param weights Target share per protocol in basis points (sums to 10000)
+ */
+export function planToTargets(
+  positions: ProtocolPosition[],
+  weights: TargetWeights
+): RebalancePlan {
+  const total = positions.reduce((sum, position) => sum + BigInt(position.balance), 0n);
+  const withdrawals: AllocationChange[] = [];
+  const supplies: AllocationChange[] = [];
+
+  if (total === 0n) {
+    return { withdrawals, supplies };
+  }
+
+  // Floor every target, then hand the rounding remainder to the largest target
+  const targets = positions.map(position => (total * BigInt(weights[position.protocol] ?? 0)) / 10000n);
+  const remainder = total - targets.reduce((sum, target) => sum + target, 0n);
+  const largest = targets.reduce((best, target, i) => (target > targets[best] ? i : best), 0);
+  targets[largest] += remainder;
+
+  positions.forEach((position, i) => {
+    const delta = targets[i] - BigInt(position.balance);
+    if (delta < 0n) {
+      withdrawals.push({ protocol: position.protocol, amount: (-delta).toString(), withdrawAll: targets[i] === 0n });
+    } else if (delta > 0n) {
+      supplies.push({ protocol: position.protocol, amount: delta.toString() });
+    }
+  });
+
+  return { withdrawals, supplies };
+}
+
+/**
+ * Largest distance of any protocol from its target, in basis points of the portfolio
+ */
+export function maxAllocationDrift(
+  positions: ProtocolPosition[],
+  weights: TargetWeights
+): number {
+  const total = positions.reduce((sum, position) => sum + BigInt(position.balance), 0n);
+  if (total === 0n) {
+    return 0;
+  }
+
+  return Math.max(...positions.map(position => {
+    const currentWeight = Number((BigInt(position.balance) * 10000n) / total);
+    return Math.abs(currentWeight - (weights[position.protocol] ?? 0));
+  }));
+}
+
+/**
+ * Net liquidity change per protocol once the plan is executed
+ * (positive for supplies, negative for withdrawals)
+ */
+export function netPlanDeltas(plan: RebalancePlan): Record<ProtocolId, bigint> {
+  const deltas: Record<ProtocolId, bigint> = {};
+  for (const withdrawal of plan.withdrawals) {
+    deltas[withdrawal.protocol] = (deltas[withdrawal.protocol] ?? 0n) - BigInt(withdrawal.amount);
+  }
+  for (const supply of plan.supplies) {
+    deltas[supply.protocol] = (deltas[supply.protocol] ?? 0n) + BigInt(supply.amount);
+  }
+  return deltas;
+}
+
+/**
+ * Size supplies to what the Safe will actually hold once the withdrawals have run
+ * Exits are re-read at their live balance (WITHDRAW_ALL takes everything, interest
+ * included) and tokens already idle in the Safe are deployed too; the difference
+ * from the planned amounts goes to the largest supply
+ * Interest accrued between this read and execution stays idle in the Safe and is
+ * picked up by the next rebalance
+ * @param provider Ethers provider
+ * @param plan Planned withdrawals and supplies
+ * @param tokenAddress Token being moved
+ * @param safeAddress Safe wallet executing the plan
+ * @param decimals Token decimals, for messages
+ * @throws If the Safe would not hold enough to fund the supplies
+ */
+export async function sizeSuppliesToAvailable(
+  provider: ethers.Provider,
+  plan: RebalancePlan,
+  tokenAddress: string,
+  safeAddress: string,
+  decimals: number
+): Promise<RebalancePlan> {
+  if (plan.supplies.length === 0) {
+    return plan;
+  }
+
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  const [idle, withdrawals] = await Promise.all([
+    token.balanceOf(safeAddress) as Promise<bigint>,
+    Promise.all(plan.withdrawals.map(async withdrawal => {
+      if (!withdrawal.withdrawAll) {
+        return withdrawal;
+      }
+      const balance = await getAdapter(withdrawal.protocol).getBalance(provider, tokenAddress, safeAddress);
+      return { ...withdrawal, amount: balance.toString() };
+    }))
+  ]);
+
+  const sum = (changes: AllocationChange[]) => changes.reduce((total, change) => total + BigInt(change.amount), 0n);
+  const available = idle + sum(withdrawals);
+  const planned = sum(plan.supplies);
+
+  const supplies = plan.supplies.map(supply => ({ ...supply }));
+  const largest = supplies.reduce((best, supply, i) => (BigInt(supply.amount) > BigInt(supplies[best].amount) ? i : best), 0);
+  const adjusted = BigInt(supplies[largest].amount) + available - planned;
+  if (adjusted <= 0n) {
+    throw new Error(
+      `Safe would hold ${ethers.formatUnits(available, decimals)} after withdrawals, not enough for the planned ${ethers.formatUnits(planned, decimals)} in supplies`
+    );
+  }
+  supplies[largest].amount = adjusted.toString();
+
+  return { withdrawals, supplies };
+}
+
+/**
+ * Build the withdraw -> approve -> supply sequence executing a rebalance plan
+ * @param plan Withdrawals and supplies to execute
+ * @param tokenAddress Token being moved
+ * @param safeAddress Safe wallet executing the transactions
+ * @param decimals Token decimals, for the step logs
+ * @param verbose Log every step as it is built
+ */
+export function buildRebalanceTransactions(
+  plan: RebalancePlan,
+  tokenAddress: string,
+  safeAddress: string,
+  decimals: number,
+  verbose: boolean = true
+): SafeTransaction[] {
+  const transactions: SafeTransaction[] = [];
+  let step = 1;
+  const log = (message: string) => {
+    if (verbose) console.log(message);
+  };
+
+  // Withdraw from every protocol being reduced; exits use WITHDRAW_ALL so no interest dust stays behind
+  for (const withdrawal of plan.withdrawals) {
+    const adapter = getAdapter(withdrawal.protocol);
+    if (withdrawal.withdrawAll) {
+      log(`Step ${step++}: Withdrawing entire position (~${ethers.formatUnits(withdrawal.amount, decimals)}) from ${adapter.name}...`);
+      transactions.push(adapter.encodeWithdraw(tokenAddress, WITHDRAW_ALL, safeAddress));
+    } else {
+      log(`Step ${step++}: Withdrawing ${ethers.formatUnits(withdrawal.amount, decimals)} from ${adapter.name}...`);
+      transactions.push(adapter.encodeWithdraw(tokenAddress, BigInt(withdrawal.amount), safeAddress));
+    }
+  }
+
+  // Approve and deposit into every protocol being increased
+  for (const supply of plan.supplies) {
+    const adapter = getAdapter(supply.protocol);
+    const amount = BigInt(supply.amount);
+
+    log(`Step ${step++}: Approving ${adapter.name}...`);
+    transactions.push(encodeApprovalTransaction(tokenAddress, adapter.approvalTarget(tokenAddress), amount));
+
+    log(`Step ${step++}: Depositing ${ethers.formatUnits(amount, decimals)} to ${adapter.name}...`);
+    transactions.push(adapter.encodeSupply(tokenAddress, amount, safeAddress));
+  }
+
+  return transactions;
+}
@@ -0,0 +1,235 @@
+import { ethers } from 'ethers';
+import { SafeTransaction } from './contracts/adapter';
+import { OPERATION_CALL } from './multisend';
+import { buildSafeTxProposal, signProposal, executeProposal, saveProposal } from './safeProposal';
+import { connect, loadConfig, requireSetting } from './config';
+
+/**
+ * TriggerX Safe module setup
+ * TriggerX executes jobs through TaskExecutionHub -> TriggerXSafeModule.execJobFromHub
+ * -> Safe.execTransactionFromModule, so the module must be enabled on the Safe and
+ * point at the hub. This checks that chain end to end and enables the module if needed
+ * (see also foundry/script/SafeModuleAaveSupply.s.sol)
+ */
+
+const SAFE_ABI = [
+  'function isModuleEnabled(address module) view returns (bool)',
+  'function enableModule(address module)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)'
+];
+
+// Matches foundry/src/interfaces/ITriggerXSafeModule.sol and the module deployed for
+// sdk-triggerx 0.1.38, whose execJobFromHub also takes the job owner
+const TRIGGERX_SAFE_MODULE_ABI = [
+  'function taskExecutionHub() view returns (address)',
+  'function execJobFromHub(address safeAddress, address actionTarget, uint256 actionValue, bytes actionData, uint8 operation, address jobOwner) returns (bool success)'
+];
+
+const safeInterface = new ethers.Interface(SAFE_ABI);
+const moduleInterface = new ethers.Interface(TRIGGERX_SAFE_MODULE_ABI);
+
+export interface ModuleStatus {
+  safeAddress: string;
+  moduleAddress: string;
+  enabled: boolean;
+  taskExecutionHub: string | null;
+  problems: string[]; // empty when the job executor can act on the Safe
+}
+
+/**
+ * Resolve the TriggerX Safe module address
+ * contracts.safeModule (SAFE_MODULE_ADDRESS) overrides the address the TriggerX SDK uses for the chain
+ * @throws If neither is available
+ */
+export function resolveSafeModuleAddress(chainId: string): string {
+  const configured = loadConfig().contracts.safeModule;
+  if (configured) {
+    return configured;
+  }
+
+  let sdkModule: string | undefined;
+  try {
+    sdkModule = require('sdk-triggerx').getChainAddresses(chainId)?.safeModule;
+  } catch {
+    // SDK not installed; only the configured address is available
+  }
+  if (!sdkModule) {
+    throw new Error(`No TriggerX Safe module known for chain ${chainId}; set SAFE_MODULE_ADDRESS`);
+  }
+  return sdkModule;
+}
+
+/**
+ * Check that TriggerX can execute jobs on the Safe
+ * Verifies the module and its TaskExecutionHub are deployed, the hub matches
+ * contracts.taskExecutionHub when set, the module is enabled, and finally
+ * dry-runs execJobFromHub from the hub with a read-only action
+ * @param provider Ethers provider
+ * @param safeAddress Safe wallet jobs act on
+ * @param moduleAddress TriggerX Safe module
+ * @param jobOwner Account creating the jobs
+ */
+export async function checkSafeModule(
+  provider: ethers.Provider,
+  safeAddress: string,
+  moduleAddress: string,
+  jobOwner: string
+): Promise<ModuleStatus> {
+  const status: ModuleStatus = { safeAddress, moduleAddress, enabled: false, taskExecutionHub: null, problems: [] };
+
+  if (await provider.getCode(moduleAddress) === '0x') {
+    status.problems.push(`No contract at module address ${moduleAddress}`);
+    return status;
+  }
+
+  const module = new ethers.Contract(moduleAddress, TRIGGERX_SAFE_MODULE_ABI, provider);
+  try {
+    status.taskExecutionHub = await module.taskExecutionHub();
+  } catch (error: any) {
+    status.problems.push(`taskExecutionHub() failed on ${moduleAddress}: ${error.shortMessage || error.message}`);
+  }
+
+  const hub = status.taskExecutionHub;
+  if (hub) {
+    if (hub === ethers.ZeroAddress || await provider.getCode(hub) === '0x') {
+      status.problems.push(`Module's TaskExecutionHub ${hub} is not a deployed contract`);
+    }
+    const expectedHub = loadConfig().contracts.taskExecutionHub;
+    if (expectedHub && expectedHub.toLowerCase() !== hub.toLowerCase()) {
+      status.problems.push(`Module's TaskExecutionHub is ${hub}, expected ${expectedHub} (contracts.taskExecutionHub)`);
+    }
+  }
+
+  const safe = new ethers.Contract(safeAddress, SAFE_ABI, provider);
+  status.enabled = await safe.isModuleEnabled(moduleAddress);
+  if (!status.enabled) {
+    status.problems.push(`Module ${moduleAddress} is not enabled on Safe ${safeAddress}`);
+    return status;
+  }
+
+  // Dry run: the hub asks the module to have the Safe read its own threshold
+  if (hub && status.problems.length === 0) {
+    const probe = safeInterface.encodeFunctionData('getThreshold');
+    try {
+      await provider.call({
+        from: hub,
+        to: moduleAddress,
+        data: moduleInterface.encodeFunctionData('execJobFromHub', [safeAddress, safeAddress, 0, probe, OPERATION_CALL, jobOwner])
+      });
+    } catch (error: any) {
+      status.problems.push(`execJobFromHub dry run from the hub reverted: ${error.reason || error.shortMessage || error.message}`);
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Build the Safe transaction enabling a module (the Safe calls itself)
+ */
+export function buildEnableModuleTransaction(safeAddress: string, moduleAddress: string): SafeTransaction {
+  return {
+    to: safeAddress,
+    value: '0',
+    data: safeInterface.encodeFunctionData('enableModule', [moduleAddress]),
+    operation: OPERATION_CALL
+  };
+}
+
+/**
+ * Enable the module on the Safe
+ * Single-owner Safes are signed and executed with the owner key; multi-owner Safes get
+ * a proposal file to sign and execute with `npm run safe-proposal`
+ * @param signer Owner key (single-owner Safes) and gas payer
+ * @param proposalFile Where to write the proposal for multi-owner Safes
+ * @returns 'executed' or 'proposed'
+ * @throws If a single-owner Safe is not owned by the signer
+ */
+export async function enableSafeModule(
+  signer: ethers.Wallet,
+  safeAddress: string,
+  moduleAddress: string,
+  proposalFile: string
+): Promise<'executed' | 'proposed'> {
+  const provider = signer.provider!;
+  const proposal = await buildSafeTxProposal(provider, safeAddress, [buildEnableModuleTransaction(safeAddress, moduleAddress)]);
+
+  if (proposal.threshold > 1) {
+    saveProposal(proposal, proposalFile);
+    return 'proposed';
+  }
+
+  const isOwner = proposal.owners.some(owner => owner.toLowerCase() === signer.address.toLowerCase());
+  if (!isOwner) {
+    throw new Error(`${signer.address} is not an owner of Safe ${safeAddress}; it cannot enable the module`);
+  }
+
+  await signProposal(proposal, signer);
+  const receipt = await executeProposal(proposal, signer);
+  console.log(`   enableModule executed in ${receipt?.hash}`);
+  return 'executed';
+}
+
+function printModuleStatus(status: ModuleStatus): void {
+  console.log(`   Safe: ${status.safeAddress}`);
+  console.log(`   Module: ${status.moduleAddress}`);
+  console.log(`   TaskExecutionHub: ${status.taskExecutionHub ?? 'unknown'}`);
+  console.log(`   Enabled: ${status.enabled ? 'yes' : 'no'}`);
+}
+
+async function main() {
+  const checkOnly = process.argv.includes('--check');
+  const fileIndex = process.argv.indexOf('--file');
+  const proposalFile = fileIndex >= 0 ? process.argv[fileIndex + 1] : '.safe-module-proposal.json';
+
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('PRIVATE_KEY not set in .env');
+  }
+
+  const { config, provider } = await connect();
+  const signer = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  const safeAddress = requireSetting(config.safeAddress, 'safeAddress');
+  // Jobs are created (and owned) by PRIVATE_KEY unless job.jobOwner says otherwise
+  const jobOwner = config.job.jobOwner || signer.address;
+
+  const network = await provider.getNetwork();
+  const moduleAddress = resolveSafeModuleAddress(network.chainId.toString());
+
+  console.log(' TriggerX Safe Module Setup\n');
+  let status = await checkSafeModule(provider, safeAddress, moduleAddress, jobOwner);
+  printModuleStatus(status);
+
+  if (!status.enabled && !checkOnly) {
+    console.log('\nINFO: Enabling module on the Safe...');
+    const result = await enableSafeModule(signer, safeAddress, moduleAddress, proposalFile);
+    if (result === 'proposed') {
+      console.log(`\nINFO: Safe needs several owner signatures; enableModule proposal written to ${proposalFile}`);
+      console.log(`   npm run safe-proposal -- sign --file ${proposalFile}`);
+      console.log(`   npm run safe-proposal -- execute --file ${proposalFile}`);
+      console.log('   Then run this command again to verify the setup.');
+      process.exit(1);
+    }
+
+    status = await checkSafeModule(provider, safeAddress, moduleAddress, jobOwner);
+    console.log('');
+    printModuleStatus(status);
+  }
+
+  if (status.problems.length > 0) {
+    console.error('\nERROR: TriggerX cannot execute jobs on this Safe:');
+    for (const problem of status.problems) {
+      console.error(`   - ${problem}`);
+    }
+    process.exit(1);
+  }
+
+  console.log('\nSUCCESS: TriggerX can execute jobs on this Safe');
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,419 @@
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import { SafeTransaction } from './contracts/adapter';
+import { RebalancePlan, buildRebalanceTransactions } from './rebalance';
+import { buildSafeAction } from './multisend';
+import { assertRebalanceSimulates } from './simulate';
+import { compareYields } from './yieldMonitor';
+import { parseAssetOption } from './assets';
+import { connect, loadConfig, requireSetting } from './config';
+
+/**
+ * Safe transaction proposals
+ * For Safes with several owners (e.g. a 3-of-5 treasury) the rebalance bundle is
+ * executed with Safe.execTransaction instead of the single-owner module flow:
+ *
+ *   propose -> unsigned EIP-712 SafeTx written to a JSON file (signable offline)
+ *   sign    -> signatures added from private keys or encrypted keystores
+ *   execute -> submitted once the Safe's threshold of owner signatures is met
+ */
+
+/**
+ * Path of the proposal file (read on use, so importing this module never loads the config)
+ */
+export function getSafeProposalFile(): string {
+  return loadConfig().files.safeProposal;
+}
+
+const SAFE_ABI = [
+  'function VERSION() view returns (string)',
+  'function nonce() view returns (uint256)',
+  'function getOwners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'function getTransactionHash(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) view returns (bytes32)',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address payable refundReceiver, bytes signatures) payable returns (bool success)'
+];
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+// All numeric fields as decimal strings
+export interface SafeTx {
+  to: string;
+  value: string;
+  data: string;
+  operation: number;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: string;
+}
+
+export interface SafeSignature {
+  signer: string;
+  signature: string;
+}
+
+export interface SafeTxProposal {
+  safeAddress: string;
+  chainId: string;
+  safeVersion: string;
+  safeTxHash: string;
+  safeTx: SafeTx;
+  // eth_signTypedData_v4 payload, for signing with a hardware wallet or `cast wallet sign --data`
+  typedData: {
+    domain: ethers.TypedDataDomain;
+    types: typeof SAFE_TX_TYPES;
+    primaryType: 'SafeTx';
+    message: SafeTx;
+  };
+  owners: string[];
+  threshold: number;
+  steps: SafeTransaction[]; // bundled steps, for review
+  plan?: RebalancePlan; // set for rebalances, which are re-simulated before execution
+  tokenAddress?: string;
+  signatures: SafeSignature[];
+  createdAt: string;
+}
+
+/**
+ * EIP-712 domain of a Safe
+ * Safes before 1.3.0 do not include the chain id in their domain
+ */
+export function getSafeDomain(safeAddress: string, chainId: string, safeVersion: string): ethers.TypedDataDomain {
+  const [major, minor] = safeVersion.split('.').map(part => parseInt(part));
+  if (major === 1 && minor < 3) {
+    return { verifyingContract: safeAddress };
+  }
+  return { chainId, verifyingContract: safeAddress };
+}
+
+/**
+ * Build an unsigned proposal executing the steps from the Safe
+ * The hash is checked against the Safe's own getTransactionHash
+ * @param provider Ethers provider
+ * @param safeAddress Safe wallet executing the steps
+ * @param transactions Steps, bundled into one MultiSend when several
+ * @param plan Rebalance plan the steps were built from, if any
+ * @param tokenAddress Token being moved, if any
+ */
+export async function buildSafeTxProposal(
+  provider: ethers.Provider,
+  safeAddress: string,
+  transactions: SafeTransaction[],
+  plan?: RebalancePlan,
+  tokenAddress?: string
+): Promise<SafeTxProposal> {
+  const safe = new ethers.Contract(safeAddress, SAFE_ABI, provider);
+  const [network, safeVersion, nonce, owners, threshold] = await Promise.all([
+    provider.getNetwork(),
+    safe.VERSION() as Promise<string>,
+    safe.nonce() as Promise<bigint>,
+    safe.getOwners() as Promise<string[]>,
+    safe.getThreshold() as Promise<bigint>
+  ]);
+
+  const action = buildSafeAction(transactions);
+  const safeTx: SafeTx = {
+    to: action.to,
+    value: action.value,
+    data: action.data,
+    operation: action.operation!,
+    safeTxGas: '0',
+    baseGas: '0',
+    gasPrice: '0',
+    gasToken: ethers.ZeroAddress,
+    refundReceiver: ethers.ZeroAddress,
+    nonce: nonce.toString()
+  };
+
+  const chainId = network.chainId.toString();
+  const domain = getSafeDomain(safeAddress, chainId, safeVersion);
+  const safeTxHash = ethers.TypedDataEncoder.hash(domain, SAFE_TX_TYPES, safeTx);
+
+  const onChainHash: string = await safe.getTransactionHash(
+    safeTx.to, safeTx.value, safeTx.data, safeTx.operation, safeTx.safeTxGas,
+    safeTx.baseGas, safeTx.gasPrice, safeTx.gasToken, safeTx.refundReceiver, safeTx.nonce
+  );
+  if (onChainHash !== safeTxHash) {
+    throw new Error(`SafeTx hash mismatch: computed ${safeTxHash}, Safe ${safeVersion} returns ${onChainHash}`);
+  }
+
+  return {
+    safeAddress,
+    chainId,
+    safeVersion,
+    safeTxHash,
+    safeTx,
+    typedData: { domain, types: SAFE_TX_TYPES, primaryType: 'SafeTx', message: safeTx },
+    owners,
+    threshold: Number(threshold),
+    steps: transactions,
+    plan,
+    tokenAddress,
+    signatures: [],
+    createdAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Load a proposal file
+ */
+export function loadProposal(file: string = getSafeProposalFile()): SafeTxProposal {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Proposal file ${file} not found; run "propose" first`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Save a proposal file
+ */
+export function saveProposal(proposal: SafeTxProposal, file: string = getSafeProposalFile()): void {
+  fs.writeFileSync(file, JSON.stringify(proposal, null, 2) + '\n');
+}
+
+/**
+ * Recover the account that signed the proposal
+ */
+export function recoverSigner(proposal: SafeTxProposal, signature: string): string {
+  return ethers.verifyTypedData(proposal.typedData.domain, SAFE_TX_TYPES, proposal.safeTx, signature);
+}
+
+/**
+ * Recover the owner behind a signature of the proposal
+ * @throws If the signature is not from an owner of the Safe
+ */
+export function verifySignature(proposal: SafeTxProposal, signature: string): string {
+  const signer = recoverSigner(proposal, signature);
+  const isOwner = proposal.owners.some(owner => owner.toLowerCase() === signer.toLowerCase());
+  if (!isOwner) {
+    throw new Error(`Signature recovers to ${signer}, which is not an owner of ${proposal.safeAddress}`);
+  }
+  return signer;
+}
+
+/**
+ * Add a signature to the proposal, replacing any earlier one from the same owner
+ * @returns Owner who signed
+ * @throws If the signature is not from an owner of the Safe
+ */
+export function addSignature(proposal: SafeTxProposal, signature: string): string {
+  const signer = verifySignature(proposal, signature);
+  proposal.signatures = proposal.signatures.filter(entry => entry.signer.toLowerCase() !== signer.toLowerCase());
+  proposal.signatures.push({ signer, signature });
+  return signer;
+}
+
+/**
+ * Sign the proposal with an owner key
+ */
+export async function signProposal(proposal: SafeTxProposal, wallet: ethers.Wallet | ethers.HDNodeWallet): Promise<string> {
+  const signature = await wallet.signTypedData(proposal.typedData.domain, SAFE_TX_TYPES, proposal.safeTx);
+  return addSignature(proposal, signature);
+}
+
+/**
+ * Load signer wallets from SAFE_SIGNER_KEYS (comma-separated private keys) and
+ * SAFE_SIGNER_KEYSTORES (comma-separated keystore files, decrypted with SAFE_KEYSTORE_PASSWORD)
+ * @param extraKeystores Keystore files given on the command line
+ */
+export async function loadSignerWallets(extraKeystores: string[] = []): Promise<(ethers.Wallet | ethers.HDNodeWallet)[]> {
+  const split = (value?: string) => (value || '').split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+  const wallets: (ethers.Wallet | ethers.HDNodeWallet)[] = split(process.env.SAFE_SIGNER_KEYS).map(key => new ethers.Wallet(key));
+
+  const keystores = [...split(process.env.SAFE_SIGNER_KEYSTORES), ...extraKeystores];
+  if (keystores.length > 0 && process.env.SAFE_KEYSTORE_PASSWORD === undefined) {
+    throw new Error('SAFE_KEYSTORE_PASSWORD must be set to decrypt keystores');
+  }
+  for (const keystore of keystores) {
+    wallets.push(await ethers.Wallet.fromEncryptedJson(fs.readFileSync(keystore, 'utf8'), process.env.SAFE_KEYSTORE_PASSWORD!));
+  }
+
+  return wallets;
+}
+
+/**
+ * Pack signatures the way Safe.checkSignatures expects them: sorted by owner address
+ */
+export function encodeSignatures(signatures: SafeSignature[]): string {
+  const sorted = [...signatures].sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1));
+  return ethers.concat(sorted.map(entry => entry.signature));
+}
+
+/**
+ * Execute the proposal with Safe.execTransaction once the threshold is met
+ * The Safe's nonce, threshold and owners are re-read so stale proposals fail early
+ * @param proposal Signed proposal
+ * @param executor Account paying for gas (any account, owner or not)
+ * @throws If signatures are missing or the proposal no longer matches the Safe
+ */
+export async function executeProposal(
+  proposal: SafeTxProposal,
+  executor: ethers.Signer
+): Promise<ethers.TransactionReceipt | null> {
+  const safe = new ethers.Contract(proposal.safeAddress, SAFE_ABI, executor);
+  const [nonce, threshold, owners] = await Promise.all([
+    safe.nonce() as Promise<bigint>,
+    safe.getThreshold() as Promise<bigint>,
+    safe.getOwners() as Promise<string[]>
+  ]);
+
+  if (nonce.toString() !== proposal.safeTx.nonce) {
+    throw new Error(`Safe nonce is ${nonce} but the proposal was built for nonce ${proposal.safeTx.nonce}; propose again`);
+  }
+
+  const ownerSet = new Set(owners.map(owner => owner.toLowerCase()));
+  const valid = proposal.signatures
+    .map(entry => ({ signer: recoverSigner(proposal, entry.signature), signature: entry.signature }))
+    .filter(entry => ownerSet.has(entry.signer.toLowerCase()));
+  if (BigInt(valid.length) < threshold) {
+    throw new Error(`Only ${valid.length} of ${threshold} required owner signature(s) collected`);
+  }
+
+  // Exactly threshold signatures: extra ones are not needed and only cost gas
+  const signatures = encodeSignatures(valid.slice(0, Number(threshold)));
+  const { safeTx } = proposal;
+  const tx = await safe.execTransaction(
+    safeTx.to, safeTx.value, safeTx.data, safeTx.operation, safeTx.safeTxGas,
+    safeTx.baseGas, safeTx.gasPrice, safeTx.gasToken, safeTx.refundReceiver, signatures
+  );
+  return tx.wait();
+}
+
+/**
+ * Print the signing status of a proposal
+ */
+function printProposalStatus(proposal: SafeTxProposal, file: string): void {
+  console.log(` Proposal: ${file}`);
+  console.log(`   Safe: ${proposal.safeAddress} (v${proposal.safeVersion}, chain ${proposal.chainId})`);
+  console.log(`   SafeTxHash: ${proposal.safeTxHash}`);
+  console.log(`   Nonce: ${proposal.safeTx.nonce}`);
+  console.log(`   Action: ${proposal.steps.length} step(s), ${proposal.safeTx.operation === 1 ? 'DELEGATECALL' : 'CALL'} to ${proposal.safeTx.to}`);
+  console.log(`   Signatures: ${proposal.signatures.length} of ${proposal.threshold}`);
+  for (const entry of proposal.signatures) {
+    console.log(`     - ${entry.signer}`);
+  }
+}
+
+/**
+ * Values following a repeatable command line option
+ */
+function optionValues(args: string[], name: string): string[] {
+  return args.flatMap((arg, i) => (arg === name && args[i + 1] ? [args[i + 1]] : []));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+  const file = optionValues(args, '--file')[0] || getSafeProposalFile();
+
+  const { config, provider } = await connect();
+
+  switch (command) {
+    case 'propose': {
+      const safeAddress = requireSetting(config.safeAddress, 'safeAddress');
+      // --asset <symbol|address> proposes the rebalance of another managed asset than tokenAddress
+      const assetOption = optionValues(args, '--asset')[0];
+      const tokenAddress = assetOption ? parseAssetOption(assetOption) : config.tokenAddress;
+
+      // A proposal is not a decision until it is executed, so it records no observation
+      const yieldData = await compareYields(tokenAddress, { persist: false });
+      if (!yieldData.shouldMove) {
+        console.log('INFO: No rebalancing needed at this time; nothing to propose.');
+        return;
+      }
+
+      const transactions = buildRebalanceTransactions(yieldData.plan, tokenAddress, safeAddress, yieldData.asset.decimals);
+      await assertRebalanceSimulates(provider, transactions, tokenAddress, safeAddress, yieldData.plan);
+
+      const proposal = await buildSafeTxProposal(provider, safeAddress, transactions, yieldData.plan, tokenAddress);
+      saveProposal(proposal, file);
+      console.log(`\nSUCCESS: Unsigned SafeTx written to ${file}`);
+      console.log('   Sign offline with the typedData field, then add signatures with "sign" or "add-signature".\n');
+      printProposalStatus(proposal, file);
+      return;
+    }
+
+    case 'sign': {
+      const proposal = loadProposal(file);
+      const wallets = await loadSignerWallets(optionValues(args, '--keystore'));
+      if (wallets.length === 0) {
+        throw new Error('No signers: set SAFE_SIGNER_KEYS or SAFE_SIGNER_KEYSTORES, or pass --keystore <file>');
+      }
+      for (const wallet of wallets) {
+        const signer = await signProposal(proposal, wallet);
+        console.log(`SUCCESS: Signed by ${signer}`);
+      }
+      saveProposal(proposal, file);
+      printProposalStatus(proposal, file);
+      return;
+    }
+
+    case 'add-signature': {
+      const proposal = loadProposal(file);
+      const signatures = optionValues(args, '--signature');
+      if (signatures.length === 0) {
+        throw new Error('Pass the offline signature(s) with --signature <0x...>');
+      }
+      for (const signature of signatures) {
+        console.log(`SUCCESS: Added signature from ${addSignature(proposal, signature)}`);
+      }
+      saveProposal(proposal, file);
+      printProposalStatus(proposal, file);
+      return;
+    }
+
+    case 'execute': {
+      if (!process.env.PRIVATE_KEY) {
+        throw new Error('PRIVATE_KEY not set in .env (pays gas for execTransaction)');
+      }
+      const proposal = loadProposal(file);
+      printProposalStatus(proposal, file);
+
+      // A rebalance proposal may be hours old: make sure the steps still succeed
+      if (proposal.plan && proposal.tokenAddress) {
+        await assertRebalanceSimulates(provider, proposal.steps, proposal.tokenAddress, proposal.safeAddress, proposal.plan);
+      }
+
+      const executor = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+      const receipt = await executeProposal(proposal, executor);
+      console.log(`\nSUCCESS: Executed in ${receipt?.hash} (gas used ${receipt?.gasUsed})`);
+      return;
+    }
+
+    case 'status': {
+      printProposalStatus(loadProposal(file), file);
+      return;
+    }
+
+    default:
+      console.log('Usage: npm run safe-proposal -- <propose|sign|add-signature|execute|status> [--file <proposal.json>]');
+      console.log('   propose:       [--asset <symbol|address>] (default: tokenAddress)');
+      console.log('   sign:          [--keystore <file>]... (also SAFE_SIGNER_KEYS / SAFE_SIGNER_KEYSTORES)');
+      console.log('   add-signature: --signature <0x...>... (EIP-712 signatures of the typedData)');
+      process.exit(command ? 1 : 0);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { ApiHandler, withApiGuard } from './apiGuard';
+import { collectBalanceMetrics } from './checkBalance';
+import { METRICS_CONTENT_TYPE, addMetricsCollector, collectMetrics, renderMetrics } from './metrics';
+import { connect, loadConfig } from './config';
+
+/**
+ * Standalone API server
+ * Serves every Vercel-style handler in api/ (api/monitor.ts as /api/monitor, ...)
+ * on a plain Node HTTP server, so the whole stack runs locally (e.g. against anvil)
+ * or on a VM instead of Vercel. Adds:
+ *
+ *   GET /healthz  the process is up
+ *   GET /readyz   the config is valid and the RPC serves a fresh block on the configured chain
+ *   GET /metrics  Prometheus metrics (src/metrics.ts); Safe and gas balances are read on every scrape.
+ *                 They reveal positions, so this route is guarded like the API endpoints
+ *
+ * Usage: npm run serve (listens on server.host:server.port, SERVER_HOST and PORT)
+ */
+
+const API_DIR = path.join(__dirname, '..', 'api');
+
+interface Readiness {
+  ready: boolean;
+  network?: string;
+  chainId?: number;
+  blockNumber?: number;
+  blockAgeSeconds?: number;
+  errors: string[];
+}
+
+/**
+ * Load the handlers in api/, keyed by route
+ * Every file exporting a default handler is served under /api/<file name>
+ */
+export function loadEndpoints(apiDir: string = API_DIR): Map<string, ApiHandler> {
+  const endpoints = new Map<string, ApiHandler>();
+  for (const file of fs.readdirSync(apiDir).sort()) {
+    const match = file.match(/^([\w-]+)\.(ts|js)$/);
+    if (!match) {
+      continue;
+    }
+    const handler = require(path.join(apiDir, file)).default;
+    if (typeof handler === 'function') {
+      endpoints.set(`/api/${match[1]}`, handler);
+    }
+  }
+  return endpoints;
+}
+
+/**
+ * Give a Node request and response the parts of Vercel's API the handlers use
+ * (req.query, res.status, res.json, res.send)
+ */
+function adaptForHandler(req: any, res: any, url: URL): void {
+  req.query = Object.fromEntries(url.searchParams);
+  res.status = (code: number) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body: unknown) => {
+    if (!res.getHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    }
+    res.end(JSON.stringify(body));
+    return res;
+  };
+  res.send = (body: unknown) => {
+    res.end(typeof body === 'string' || Buffer.isBuffer(body) ? body : JSON.stringify(body));
+    return res;
+  };
+}
+
+/**
+ * Check the server can answer API requests with trustworthy data
+ * Uses the same block age limit as the monitor (monitor.maxBlockAgeSeconds)
+ */
+export async function checkReadiness(): Promise<Readiness> {
+  const readiness: Readiness = { ready: false, errors: [] };
+  try {
+    const { config, provider } = await connect();
+    readiness.network = config.network;
+    readiness.chainId = config.chainId;
+
+    const block = await provider.getBlock('latest');
+    if (!block) {
+      readiness.errors.push('RPC returned no latest block');
+      return readiness;
+    }
+    readiness.blockNumber = block.number;
+    readiness.blockAgeSeconds = Math.max(0, Math.floor(Date.now() / 1000) - block.timestamp);
+
+    const maxAge = config.monitor.maxBlockAgeSeconds;
+    if (maxAge > 0 && readiness.blockAgeSeconds > maxAge) {
+      readiness.errors.push(`Latest block ${block.number} is ${readiness.blockAgeSeconds}s old (limit ${maxAge}s)`);
+    }
+  } catch (error: any) {
+    readiness.errors.push(error.shortMessage || error.message);
+  }
+
+  readiness.ready = readiness.errors.length === 0;
+  return readiness;
+}
+
+const metricsHandler = withApiGuard('metrics', async (req: any, res: any) => {
+  await collectMetrics();
+  res.setHeader('Content-Type', METRICS_CONTENT_TYPE);
+  return res.status(200).send(renderMetrics());
+});
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Create the HTTP server
+ * @param endpoints API handlers by route (see loadEndpoints)
+ */
+export function createServer(endpoints: Map<string, ApiHandler>): http.Server {
+  const startedAt = Date.now();
+  const routes = new Map<string, ApiHandler>([['/metrics', metricsHandler], ...endpoints]);
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = url.pathname.replace(/\/+$/, '') || '/';
+
+    try {
+      if (route === '/healthz') {
+        return sendJson(res, 200, { status: 'ok', uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000) });
+      }
+
+      if (route === '/readyz') {
+        const readiness = await checkReadiness();
+        return sendJson(res, readiness.ready ? 200 : 503, readiness);
+      }
+
+      const handler = routes.get(route);
+      if (!handler) {
+        return sendJson(res, 404, { error: 'Not found', routes: ['/healthz', '/readyz', ...routes.keys()] });
+      }
+      adaptForHandler(req, res, url);
+      await handler(req, res);
+    } catch (error: any) {
+      console.error(`ERROR: ${req.method} ${url.pathname} failed:`, error.message);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal server error', message: error.message });
+      } else {
+        res.end();
+      }
+    }
+  });
+}
+
+async function main() {
+  const config = loadConfig();
+  const endpoints = loadEndpoints();
+  const server = createServer(endpoints);
+  if (config.safeAddress) {
+    addMetricsCollector('balances', collectBalanceMetrics);
+  }
+
+  console.log(' Yield Optimizer API Server\n');
+  console.log(`   Network: ${config.network} (chain ${config.chainId})`);
+  for (const route of [...endpoints.keys(), '/healthz', '/readyz', '/metrics']) {
+    console.log(`   ${route}`);
+  }
+
+  const isLoopback = ['127.0.0.1', 'localhost', '::1'].includes(config.server.host);
+  if (!isLoopback && !process.env.API_AUTH_TOKEN && !process.env.API_HMAC_SECRET) {
+    console.log(`\nWARNING: Listening on ${config.server.host} without API_AUTH_TOKEN or API_HMAC_SECRET;`);
+    console.log('   anyone reaching this port can use the endpoints (and your RPC quota).');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.server.port, config.server.host, resolve);
+  });
+  console.log(`\nSUCCESS: Listening on http://${config.server.host}:${config.server.port}`);
+
+  const shutdown = () => {
+    console.log('\nINFO: Shutting down...');
+    server.close(() => process.exit(0));
+    server.closeAllConnections();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
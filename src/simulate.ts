@@ -0,0 +1,383 @@
+import { ethers } from 'ethers';
+import { SafeTransaction } from './contracts/adapter';
+import { AAVE_POOL_ABI, ERC20_ABI } from './contracts/aave';
+import { COMPOUND_COMET_ABI } from './contracts/compound';
+import { getAdaptersForToken } from './contracts/registry';
+import { RebalancePlan, netPlanDeltas, buildRebalanceTransactions } from './rebalance';
+import { getMultiSendAddress, encodeMultiSend } from './multisend';
+import { getTokenDecimals } from './costs';
+import { compareYields } from './yieldMonitor';
+import { parseAssetOption } from './assets';
+import { connect, loadConfig, requireSetting } from './config';
+
+/**
+ * Pre-flight simulation of rebalance bundles
+ * Runs every step from the Safe's context before anything reaches TriggerX:
+ *
+ * - fork (anvil/hardhat): steps are sent as the impersonated Safe inside a
+ *   snapshot that is reverted afterwards; gas and balances are measured
+ * - eth_call (any other RPC): MultiSendCallOnly's code is overridden onto the
+ *   Safe address, so growing prefixes of the bundle run exactly as the Safe's
+ *   DELEGATECALL would; balance changes are derived from the plan
+ */
+
+export type SimulationMode = 'fork' | 'eth_call';
+
+export interface StepSimulation {
+  index: number; // 1-based, matching the "Step N" build log
+  to: string;
+  method: string;
+  success: boolean;
+  gasUsed?: string; // undefined when the node cannot estimate with state overrides
+  revertReason?: string;
+}
+
+// Amounts in the token's smallest unit, as strings
+export interface BalanceChange {
+  label: string;
+  before: string;
+  after: string;
+  change: string;
+}
+
+export interface SimulationReport {
+  mode: SimulationMode;
+  success: boolean;
+  steps: StepSimulation[]; // stops at the first reverting step
+  gasUsed?: string;
+  balancesMeasured: boolean; // false when balance changes are expected values from the plan
+  balanceChanges: BalanceChange[];
+  revertReason?: string;
+}
+
+// Interfaces used to name steps in the report
+const STEP_INTERFACES = [AAVE_POOL_ABI, COMPOUND_COMET_ABI, ERC20_ABI].map(abi => new ethers.Interface(abi));
+
+// ETH given to the impersonated Safe to pay for the simulated transactions
+const FORK_SAFE_GAS_BALANCE = ethers.parseEther('100');
+
+/**
+ * Name the function a step calls, falling back to its selector
+ */
+function describeStep(tx: SafeTransaction): string {
+  for (const iface of STEP_INTERFACES) {
+    const parsed = iface.parseTransaction({ data: tx.data });
+    if (parsed) {
+      return parsed.name;
+    }
+  }
+  return ethers.dataSlice(tx.data, 0, 4);
+}
+
+/**
+ * Extract a readable revert reason from a failed call or transaction
+ */
+export function describeRevert(error: any): string {
+  if (error?.reason) {
+    return error.reason;
+  }
+  const data = error?.data ?? error?.info?.error?.data;
+  if (typeof data === 'string' && data.length >= 10) {
+    return `custom error ${data.slice(0, 10)}`;
+  }
+  return error?.shortMessage || error?.message || 'execution reverted';
+}
+
+/**
+ * Detect a local fork node that supports impersonation and snapshots
+ * @returns RPC method prefix ('anvil' or 'hardhat'), or null for other nodes
+ */
+async function detectForkNode(provider: ethers.JsonRpcProvider): Promise<'anvil' | 'hardhat' | null> {
+  try {
+    const version: string = (await provider.send('web3_clientVersion', [])).toLowerCase();
+    if (version.includes('anvil')) return 'anvil';
+    if (version.includes('hardhat')) return 'hardhat';
+  } catch {
+    // Node does not expose its client version
+  }
+  return null;
+}
+
+/**
+ * Read the Safe's idle token balance and its position in every protocol
+ */
+async function readBalances(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  safeAddress: string
+): Promise<{ label: string; balance: bigint }[]> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+  const [idle, positions] = await Promise.all([
+    token.balanceOf(safeAddress) as Promise<bigint>,
+    Promise.all(getAdaptersForToken(tokenAddress).map(async adapter => ({
+      label: `${adapter.name} position`,
+      balance: await adapter.getBalance(provider, tokenAddress, safeAddress)
+    })))
+  ]);
+
+  return [{ label: 'Safe token balance', balance: idle }, ...positions];
+}
+
+function toBalanceChange(label: string, before: bigint, after: bigint): BalanceChange {
+  return {
+    label,
+    before: before.toString(),
+    after: after.toString(),
+    change: (after - before).toString()
+  };
+}
+
+/**
+ * Execute the steps as the impersonated Safe inside a snapshot, then revert it
+ */
+async function simulateOnFork(
+  provider: ethers.JsonRpcProvider,
+  prefix: 'anvil' | 'hardhat',
+  transactions: SafeTransaction[],
+  tokenAddress: string,
+  safeAddress: string
+): Promise<SimulationReport> {
+  const before = await readBalances(provider, tokenAddress, safeAddress);
+  const steps: StepSimulation[] = [];
+  const snapshot = await provider.send('evm_snapshot', []);
+
+  let after = before;
+  try {
+    await provider.send(`${prefix}_impersonateAccount`, [safeAddress]);
+    await provider.send(`${prefix}_setBalance`, [safeAddress, ethers.toQuantity(FORK_SAFE_GAS_BALANCE)]);
+    const safe = await provider.getSigner(safeAddress);
+
+    for (const [i, tx] of transactions.entries()) {
+      const step: StepSimulation = { index: i + 1, to: tx.to, method: describeStep(tx), success: false };
+      steps.push(step);
+      try {
+        const sent = await safe.sendTransaction({ to: tx.to, value: tx.value, data: tx.data });
+        const receipt = await sent.wait();
+        step.success = receipt?.status === 1;
+        step.gasUsed = receipt?.gasUsed.toString();
+      } catch (error: any) {
+        step.revertReason = describeRevert(error);
+      }
+      if (!step.success) {
+        break;
+      }
+    }
+
+    after = await readBalances(provider, tokenAddress, safeAddress);
+  } finally {
+    // Impersonation outlives snapshots: end it even when a step threw
+    try {
+      await provider.send(`${prefix}_stopImpersonatingAccount`, [safeAddress]);
+    } finally {
+      await provider.send('evm_revert', [snapshot]);
+    }
+  }
+
+  return buildReport('fork', steps, transactions.length, true,
+    before.map((entry, i) => toBalanceChange(entry.label, entry.balance, after[i].balance)));
+}
+
+/**
+ * Run growing prefixes of the bundle with eth_call, MultiSendCallOnly's code
+ * overridden onto the Safe so every step runs with the Safe as msg.sender
+ * and sees the state left by the steps before it
+ */
+async function simulateWithEthCall(
+  provider: ethers.JsonRpcProvider,
+  transactions: SafeTransaction[],
+  tokenAddress: string,
+  safeAddress: string,
+  plan: RebalancePlan
+): Promise<SimulationReport> {
+  const multiSendCode = await provider.getCode(getMultiSendAddress());
+  if (multiSendCode === '0x') {
+    throw new Error(`MultiSendCallOnly is not deployed at ${getMultiSendAddress()} on this network; cannot simulate`);
+  }
+
+  const overrides = { [safeAddress]: { code: multiSendCode } };
+  const steps: StepSimulation[] = [];
+  let previousGas: bigint | null = 0n;
+
+  for (const [i, tx] of transactions.entries()) {
+    const step: StepSimulation = { index: i + 1, to: tx.to, method: describeStep(tx), success: false };
+    steps.push(step);
+    const call = { from: safeAddress, to: safeAddress, data: encodeMultiSend(transactions.slice(0, i + 1)) };
+
+    try {
+      await provider.send('eth_call', [call, 'latest', overrides]);
+      step.success = true;
+    } catch (error: any) {
+      step.revertReason = describeRevert(error);
+      break;
+    }
+
+    // Per-step gas is the growth of the prefix estimate; not every node accepts overrides here
+    if (previousGas !== null) {
+      try {
+        const gas = BigInt(await provider.send('eth_estimateGas', [call, 'latest', overrides]));
+        step.gasUsed = (gas - previousGas).toString();
+        previousGas = gas;
+      } catch {
+        previousGas = null;
+      }
+    }
+  }
+
+  // Expected changes: withdrawals land in the Safe, supplies leave it
+  const before = await readBalances(provider, tokenAddress, safeAddress);
+  const deltas = netPlanDeltas(plan);
+  const tokenDelta = -Object.values(deltas).reduce((sum, delta) => sum + delta, 0n);
+  const adapters = getAdaptersForToken(tokenAddress);
+  const balanceChanges = before.map((entry, i) => {
+    const delta = i === 0 ? tokenDelta : (deltas[adapters[i - 1].id] ?? 0n);
+    return toBalanceChange(entry.label, entry.balance, entry.balance + delta);
+  });
+
+  return buildReport('eth_call', steps, transactions.length, false, balanceChanges);
+}
+
+function buildReport(
+  mode: SimulationMode,
+  steps: StepSimulation[],
+  stepCount: number,
+  balancesMeasured: boolean,
+  balanceChanges: BalanceChange[]
+): SimulationReport {
+  const failed = steps.find(step => !step.success);
+  const success = !failed && steps.length === stepCount;
+  const gasKnown = steps.length > 0 && steps.every(step => step.gasUsed !== undefined);
+
+  return {
+    mode,
+    success,
+    steps,
+    gasUsed: gasKnown ? steps.reduce((sum, step) => sum + BigInt(step.gasUsed!), 0n).toString() : undefined,
+    balancesMeasured,
+    balanceChanges,
+    revertReason: failed ? `Step ${failed.index} (${failed.method} on ${failed.to}): ${failed.revertReason}` : undefined
+  };
+}
+
+/**
+ * Simulate a rebalance bundle from the Safe's context
+ * Uses a fork (anvil/hardhat) when the RPC is one, eth_call with state overrides otherwise
+ * @param provider JSON-RPC provider for the configured RPC
+ * @param transactions Rebalance steps, in execution order
+ * @param tokenAddress Token being moved
+ * @param safeAddress Safe wallet executing the steps
+ * @param plan Plan the steps were built from (expected balance changes in eth_call mode)
+ */
+export async function simulateRebalance(
+  provider: ethers.JsonRpcProvider,
+  transactions: SafeTransaction[],
+  tokenAddress: string,
+  safeAddress: string,
+  plan: RebalancePlan
+): Promise<SimulationReport> {
+  const forkNode = await detectForkNode(provider);
+  if (forkNode) {
+    return simulateOnFork(provider, forkNode, transactions, tokenAddress, safeAddress);
+  }
+  return simulateWithEthCall(provider, transactions, tokenAddress, safeAddress, plan);
+}
+
+/**
+ * Print a simulation report
+ * @param decimals Token decimals used to format balances
+ */
+export function printSimulationReport(report: SimulationReport, decimals: number = 6): void {
+  const modeLabel = report.mode === 'fork'
+    ? 'fork: executed as the Safe, then reverted'
+    : 'eth_call: bundle run from the Safe with state overrides';
+  console.log(`\nPre-flight simulation (${modeLabel})`);
+
+  for (const step of report.steps) {
+    const gas = step.gasUsed !== undefined ? `gas ${step.gasUsed}` : 'gas n/a';
+    const status = step.success ? `OK, ${gas}` : `REVERTED: ${step.revertReason}`;
+    console.log(`   Step ${step.index}: ${step.method} -> ${step.to} ... ${status}`);
+  }
+  if (report.gasUsed !== undefined) {
+    console.log(`   Total gas: ${report.gasUsed}`);
+  }
+
+  if (report.balanceChanges.length > 0) {
+    console.log(`   Balance changes (${report.balancesMeasured ? 'measured' : 'expected from plan'}):`);
+    for (const change of report.balanceChanges) {
+      const delta = BigInt(change.change);
+      const sign = delta > 0n ? '+' : '';
+      console.log(`     ${change.label}: ${ethers.formatUnits(change.before, decimals)} -> ${ethers.formatUnits(change.after, decimals)} (${sign}${ethers.formatUnits(delta, decimals)})`);
+    }
+  }
+
+  if (report.success) {
+    console.log('SUCCESS: Simulation passed');
+  } else {
+    console.log(`ERROR: Simulation reverted at ${report.revertReason}`);
+  }
+}
+
+/**
+ * Simulate a bundle and reject it if any step reverts
+ * Set simulation.skip (SKIP_SIMULATION=true) to bypass (e.g. on RPCs without eth_call state overrides)
+ * @throws If the bundle would revert
+ */
+export async function assertRebalanceSimulates(
+  provider: ethers.JsonRpcProvider,
+  transactions: SafeTransaction[],
+  tokenAddress: string,
+  safeAddress: string,
+  plan: RebalancePlan
+): Promise<SimulationReport | null> {
+  if (loadConfig().simulation.skip) {
+    console.log('WARNING: simulation.skip is set - submitting the bundle without pre-flight simulation');
+    return null;
+  }
+
+  const report = await simulateRebalance(provider, transactions, tokenAddress, safeAddress, plan);
+  printSimulationReport(report, await getTokenDecimals(provider, tokenAddress));
+
+  if (!report.success) {
+    throw new Error(`Rebalance bundle would revert (${report.revertReason})`);
+  }
+  return report;
+}
+
+async function main() {
+  const { config, provider } = await connect();
+  // --asset <symbol|address> simulates another managed asset than tokenAddress
+  const assetIndex = process.argv.indexOf('--asset');
+  const tokenAddress = assetIndex >= 0 ? parseAssetOption(process.argv[assetIndex + 1]) : config.tokenAddress;
+  const safeAddress = requireSetting(config.safeAddress, 'safeAddress');
+
+  console.log(' Rebalance Simulation\n');
+  const yieldData = await compareYields(tokenAddress, { persist: false });
+
+  if (!yieldData.shouldMove && !process.argv.includes('--force')) {
+    console.log('INFO: No rebalancing needed at this time (use --force to simulate the plan anyway).');
+    return;
+  }
+  if (yieldData.plan.withdrawals.length === 0 && yieldData.plan.supplies.length === 0) {
+    console.log('INFO: The plan has no steps to simulate.');
+    return;
+  }
+
+  const transactions = buildRebalanceTransactions(yieldData.plan, tokenAddress, safeAddress, yieldData.asset.decimals);
+  const report = await simulateRebalance(provider, transactions, tokenAddress, safeAddress, yieldData.plan);
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printSimulationReport(report, await getTokenDecimals(provider, tokenAddress));
+  }
+
+  if (!report.success) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('ERROR:', error.message);
+    process.exit(1);
+  });
+}
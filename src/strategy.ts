@@ -0,0 +1,118 @@
+import { ProtocolId } from './contracts/adapter';
+import { loadConfig } from './config';
+
+/**
+ * Allocation strategies
+ * - best: move everything into the single highest-yielding protocol
+ * - capped: fill protocols in APY order, none above maxProtocolWeight
+ * - yield-weighted: split proportionally to APY, none above maxProtocolWeight
+ */
+export type AllocationStrategy = 'best' | 'capped' | 'yield-weighted';
+
+export interface StrategyConfig {
+  strategy: AllocationStrategy;
+  maxProtocolWeight: number; // basis points of the portfolio (e.g., 5000 = 50%)
+  minRebalanceDrift: number; // basis points of the portfolio a protocol must be off target
+}
+
+// Target share of the portfolio per protocol, in basis points (sums to 10000)
+export type TargetWeights = Record<ProtocolId, number>;
+
+const FULL_WEIGHT = 10000;
+
+/**
+ * Read the allocation strategy from the optimizer config
+ */
+export function loadStrategyConfig(): StrategyConfig {
+  const { strategy } = loadConfig();
+  return {
+    strategy: strategy.allocation,
+    maxProtocolWeight: strategy.maxProtocolWeight,
+    minRebalanceDrift: strategy.minRebalanceDrift
+  };
+}
+
+/**
+ * Compute target portfolio weights for the ranked protocols
+ * @param rankings Protocols with their APY in basis points, highest first
+ * @param config Strategy configuration
+ * @throws If the cap makes it impossible to allocate the whole portfolio
+ */
+export function computeTargetWeights(
+  rankings: { protocol: ProtocolId; apy: number }[],
+  config: StrategyConfig
+): TargetWeights {
+  const weights: TargetWeights = {};
+  rankings.forEach(entry => {
+    weights[entry.protocol] = 0;
+  });
+
+  if (rankings.length === 0) {
+    return weights;
+  }
+
+  if (config.strategy === 'best') {
+    weights[rankings[0].protocol] = FULL_WEIGHT;
+    return weights;
+  }
+
+  const cap = config.maxProtocolWeight;
+  if (cap * rankings.length < FULL_WEIGHT) {
+    throw new Error(
+      `MAX_PROTOCOL_WEIGHT of ${cap} bp cannot allocate the portfolio across ${rankings.length} protocol(s)`
+    );
+  }
+
+  if (config.strategy === 'capped') {
+    let remaining = FULL_WEIGHT;
+    for (const entry of rankings) {
+      const weight = Math.min(cap, remaining);
+      weights[entry.protocol] = weight;
+      remaining -= weight;
+    }
+    return weights;
+  }
+
+  // yield-weighted: proportional to APY, redistributing anything above the cap
+  let open = rankings.filter(entry => entry.apy > 0);
+  if (open.length === 0) {
+    open = [...rankings];
+  }
+  let remaining = FULL_WEIGHT;
+
+  while (open.length > 0 && remaining > 0) {
+    const totalAPY = open.reduce((sum, entry) => sum + Math.max(entry.apy, 0), 0);
+    const share = (entry: { apy: number }) =>
+      totalAPY > 0 ? Math.floor(remaining * Math.max(entry.apy, 0) / totalAPY) : Math.floor(remaining / open.length);
+
+    const overCap = open.filter(entry => weights[entry.protocol] + share(entry) > cap);
+    if (overCap.length === 0) {
+      let allocated = 0;
+      for (const entry of open) {
+        const weight = share(entry);
+        weights[entry.protocol] += weight;
+        allocated += weight;
+      }
+      remaining -= allocated;
+      break;
+    }
+
+    // Pin capped protocols and spread the rest over the others
+    for (const entry of overCap) {
+      remaining -= cap - weights[entry.protocol];
+      weights[entry.protocol] = cap;
+    }
+    open = open.filter(entry => !overCap.includes(entry));
+  }
+
+  // Rounding dust and anything the cap left over fills protocols in ranking order
+  for (const entry of rankings) {
+    if (remaining <= 0) break;
+    const room = cap - weights[entry.protocol];
+    const weight = Math.min(room, remaining);
+    weights[entry.protocol] += weight;
+    remaining -= weight;
+  }
+
+  return weights;
+}
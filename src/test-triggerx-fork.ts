@@ -33,26 +33,31 @@ try {
 }
 
 import { compareYields } from './yieldMonitor';
-import { ERC20_ABI, AAVE_POOL_ADDRESS, AAVE_POOL_ABI } from './contracts/aave';
-import { COMPOUND_COMET_ADDRESS, COMPOUND_COMET_ABI } from './contracts/compound';
+import { getAdapter, getAdaptersForToken } from './contracts/registry';
+import { buildRebalanceTransactions } from './rebalance';
+import { buildSafeAction } from './multisend';
+import { assertRebalanceSimulates } from './simulate';
+import { authorizeUrl } from './apiGuard';
+import { connect } from './config';
 
 /**
  * Generate rebalancing transactions for testing
  */
 async function generateTestRebalanceTransactions(
-  provider: ethers.Provider,
+  provider: ethers.JsonRpcProvider,
   safeAddress: string,
   tokenAddress: string
 ): Promise<{ to: string; value: string; data: string }[]> {
   console.log('Analyzing current position on fork...\n');
   
-  const yieldData = await compareYields();
+  const yieldData = await compareYields(tokenAddress, { persist: false });
   
   console.log(`Current yields:`);
-  console.log(`   Aave: ${(yieldData.aaveAPY / 100).toFixed(2)}%`);
-  console.log(`   Compound: ${(yieldData.compoundAPY / 100).toFixed(2)}%`);
+  for (const adapter of getAdaptersForToken(tokenAddress)) {
+    console.log(`   ${adapter.name}: ${(yieldData.apys[adapter.id] / 100).toFixed(2)}%`);
+  }
   console.log(`   Difference: ${(yieldData.difference / 100).toFixed(2)}%`);
-  console.log(`   Current position: ${yieldData.currentProtocol}`);
+  console.log(`   Current position: ${yieldData.currentProtocols.join(', ') || 'none'}`);
   console.log(`   Better protocol: ${yieldData.betterProtocol}\n`);
   
   if (!yieldData.shouldMove) {
@@ -60,93 +65,22 @@ async function generateTestRebalanceTransactions(
     return [];
   }
   
-  const transactions: { to: string; value: string; data: string }[] = [];
-  
-  // Get balances
-  const { getAaveBalance } = await import('./contracts/aave');
-  const { getCompoundBalance } = await import('./contracts/compound');
-  
-  const aaveBalance = await getAaveBalance(provider, tokenAddress, safeAddress);
-  const compoundBalance = await getCompoundBalance(provider, safeAddress);
-  
-  const amountToMove = yieldData.currentProtocol === 'aave' ? aaveBalance : compoundBalance;
-  
-  if (amountToMove === 0n) {
-    console.log('WARNING: No funds to rebalance. Job will monitor for deposits.\n');
-    return [];
+  for (const withdrawal of yieldData.plan.withdrawals) {
+    console.log(`Amount to rebalance: ${ethers.formatUnits(withdrawal.amount, yieldData.asset.decimals)} ${yieldData.asset.symbol} from ${getAdapter(withdrawal.protocol).name}`);
   }
+  console.log('');
   
-  console.log(`Amount to rebalance: ${ethers.formatUnits(amountToMove, 6)} USDC\n`);
+  const transactions = buildRebalanceTransactions(yieldData.plan, tokenAddress, safeAddress, yieldData.asset.decimals);
   
-  // Step 1: Withdraw from current protocol
-  if (yieldData.currentProtocol === 'aave') {
-    console.log('Step 1: Withdrawing from Aave...');
-    const aaveInterface = new ethers.Interface(AAVE_POOL_ABI);
-    transactions.push({
-      to: AAVE_POOL_ADDRESS,
-      value: '0',
-      data: aaveInterface.encodeFunctionData('withdraw', [
-        tokenAddress,
-        amountToMove.toString(),
-        safeAddress
-      ])
-    });
-  } else if (yieldData.currentProtocol === 'compound') {
-    console.log('Step 1: Withdrawing from Compound...');
-    const compoundInterface = new ethers.Interface(COMPOUND_COMET_ABI);
-    transactions.push({
-      to: COMPOUND_COMET_ADDRESS,
-      value: '0',
-      data: compoundInterface.encodeFunctionData('withdraw', [
-        tokenAddress,
-        amountToMove.toString()
-      ])
-    });
-  }
+  // The job submits one Safe transaction: the steps bundled into a MultiSendCallOnly DELEGATECALL
+  const action = buildSafeAction(transactions);
+  console.log(`\nSUCCESS: Generated ${transactions.length} transactions for rebalancing (${ethers.dataLength(action.data)}-byte Safe transaction)`);
   
-  // Step 2: Approve new protocol
-  console.log(`Step 2: Approving ${yieldData.betterProtocol}...`);
-  const tokenInterface = new ethers.Interface(ERC20_ABI);
-  const approveAddress = yieldData.betterProtocol === 'aave' ? AAVE_POOL_ADDRESS : COMPOUND_COMET_ADDRESS;
-  transactions.push({
-    to: tokenAddress,
-    value: '0',
-    data: tokenInterface.encodeFunctionData('approve', [
-      approveAddress,
-      amountToMove.toString()
-    ])
-  });
+  // Run the steps as the Safe on the fork before the job is created
+  await assertRebalanceSimulates(provider, transactions, tokenAddress, safeAddress, yieldData.plan);
+  console.log('');
   
-  // Step 3: Deposit to better protocol
-  if (yieldData.betterProtocol === 'aave') {
-    console.log('Step 3: Depositing to Aave...');
-    const aaveInterface = new ethers.Interface(AAVE_POOL_ABI);
-    transactions.push({
-      to: AAVE_POOL_ADDRESS,
-      value: '0',
-      data: aaveInterface.encodeFunctionData('supply', [
-        tokenAddress,
-        amountToMove.toString(),
-        safeAddress,
-        '0'
-      ])
-    });
-  } else if (yieldData.betterProtocol === 'compound') {
-    console.log('Step 3: Depositing to Compound...');
-    const compoundInterface = new ethers.Interface(COMPOUND_COMET_ABI);
-    transactions.push({
-      to: COMPOUND_COMET_ADDRESS,
-      value: '0',
-      data: compoundInterface.encodeFunctionData('supply', [
-        tokenAddress,
-        amountToMove.toString()
-      ])
-    });
-  }
-  
-  console.log(`\nSUCCESS: Generated ${transactions.length} transactions for rebalancing\n`);
-  
-  return transactions;
+  return [action];
 }
 
 /**
@@ -160,23 +94,20 @@ async function createForkTestJob() {
   if (!process.env.PRIVATE_KEY) {
     throw new Error('PRIVATE_KEY not set in .env');
   }
-  if (!process.env.RPC_URL) {
-    throw new Error('RPC_URL not set in .env');
-  }
-  if (!process.env.SAFE_WALLET_ADDRESS) {
-    throw new Error('SAFE_WALLET_ADDRESS not set in .env');
-  }
-  if (!process.env.TOKEN_ADDRESS) {
-    throw new Error('TOKEN_ADDRESS not set in .env');
-  }
   if (!process.env.TRIGGERX_API_KEY) {
     throw new Error('TRIGGERX_API_KEY not set in .env');
   }
-  if (!process.env.MONITOR_URL) {
-    throw new Error('MONITOR_URL not set in .env (should be http://localhost:3000/api/monitor for fork)');
+  
+  const { config, provider } = await connect();
+  if (!config.safeAddress) {
+    throw new Error('SAFE_WALLET_ADDRESS not set in .env or optimizer.config.json');
+  }
+  if (!config.job.monitorUrl) {
+    throw new Error('MONITOR_URL not set in .env or optimizer.config.json (should be http://localhost:3000/api/monitor for fork)');
   }
+  const safeAddress = config.safeAddress;
+  const monitorUrl = config.job.monitorUrl;
   
-  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
   const signer = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
   
   // Verify we're on fork
@@ -186,21 +117,21 @@ async function createForkTestJob() {
   console.log('Configuration:');
   console.log(`   Network: ${network.name} (Chain ID: ${network.chainId})`);
   console.log(`   Block Number: ${blockNumber}`);
-  console.log(`   RPC URL: ${process.env.RPC_URL}`);
-  console.log(`   Safe Address: ${process.env.SAFE_WALLET_ADDRESS}`);
-  console.log(`   Token: ${process.env.TOKEN_ADDRESS}`);
-  console.log(`   Monitor API: ${process.env.MONITOR_URL}`);
-  console.log(`   Min Yield Diff: ${process.env.MIN_YIELD_DIFFERENCE || '50'} bp`);
-  console.log(`   Check Interval: ${process.env.CHECK_INTERVAL || '3600'}s\n`);
+  console.log(`   RPC URL: ${config.rpcUrl}`);
+  console.log(`   Safe Address: ${safeAddress}`);
+  console.log(`   Token: ${config.tokenAddress}`);
+  console.log(`   Monitor API: ${monitorUrl}`);
+  console.log(`   Min Yield Diff: ${config.thresholds.minYieldDifference} bp`);
+  console.log(`   Check Interval: ${config.job.checkInterval}s\n`);
   
   // Check if we're on localhost (fork)
-  const isFork = process.env.RPC_URL?.includes('127.0.0.1') || process.env.RPC_URL?.includes('localhost');
+  const isFork = config.rpcUrl.includes('127.0.0.1') || config.rpcUrl.includes('localhost');
   
   if (isFork) {
     console.log('SUCCESS: Detected fork network - perfect for testing!\n');
   } else {
     console.log('WARNING: Not on fork network!');
-    console.log('   For testing, use: RPC_URL=http://127.0.0.1:8545\n');
+    console.log('   For testing, use: NETWORK=fork (or RPC_URL=http://127.0.0.1:8545)\n');
   }
   
   // Initialize TriggerX client
@@ -209,29 +140,29 @@ async function createForkTestJob() {
   // Generate rebalancing transactions
   const rebalanceTransactions = await generateTestRebalanceTransactions(
     provider,
-    process.env.SAFE_WALLET_ADDRESS,
-    process.env.TOKEN_ADDRESS
+    safeAddress,
+    config.tokenAddress
   );
   
   // Create condition-based job
   const jobInput = {
     jobType: JobType.Condition,
     conditionType: 'greater_than',
-    upperLimit: parseInt(process.env.MIN_YIELD_DIFFERENCE || '50'),
+    upperLimit: config.thresholds.minYieldDifference,
     argType: ArgType.Static,
     
     jobTitle: 'Yield Optimizer (Fork Test) - Aave ↔ Compound',
-    timeFrame: parseInt(process.env.JOB_DURATION || '86400'), // 1 day for testing
+    timeFrame: config.job.jobDuration, // set JOB_DURATION=86400 for a 1-day test job
     
     // Value source: your local API
     valueSourceType: 'api',
-    valueSourceUrl: process.env.MONITOR_URL,
+    valueSourceUrl: authorizeUrl(monitorUrl, config.job.jobDuration),
     
-    chainId: process.env.CHAIN_ID || '42161',
+    chainId: String(config.chainId),
     
     // Safe wallet mode
     walletMode: 'safe',
-    safeAddress: process.env.SAFE_WALLET_ADDRESS,
+    safeAddress,
     safeTransactions: rebalanceTransactions.length > 0 ? rebalanceTransactions : undefined,
     
     autotopupTG: true,
@@ -248,7 +179,7 @@ async function createForkTestJob() {
     console.log(`View on TriggerX: https://app.triggerx.network/jobs/${result.jobId}\n`);
     console.log('The job will:');
     console.log('   1. Monitor yield differences via your local API');
-    console.log(`   2. Trigger when difference > ${(parseInt(process.env.MIN_YIELD_DIFFERENCE || '50') / 100).toFixed(2)}%`);
+    console.log(`   2. Trigger when difference > ${(config.thresholds.minYieldDifference / 100).toFixed(2)}%`);
     console.log('   3. Automatically rebalance funds to higher-yielding protocol');
     console.log('   4. Execute safely through your Safe wallet\n');
     console.log('🧪 Testing Tips:');
@@ -25,9 +25,16 @@ try {
   throw error;
 }
 
-import { compareYields } from './yieldMonitor';
-import { ERC20_ABI, AAVE_POOL_ADDRESS, AAVE_POOL_ABI } from './contracts/aave';
-import { COMPOUND_COMET_ADDRESS, COMPOUND_COMET_ABI } from './contracts/compound';
+import { compareAllAssets } from './yieldMonitor';
+import { getAdapter } from './contracts/registry';
+import { buildRebalanceTransactions } from './rebalance';
+import { SafeTransaction } from './contracts/adapter';
+import { buildSafeAction } from './multisend';
+import { assertRebalanceSimulates } from './simulate';
+import { recordJob, getJobsFile } from './jobs/store';
+import { getAssetAddresses, getAssetLabel } from './assets';
+import { authorizeUrl } from './apiGuard';
+import { connect } from './config';
 
 /**
  * TriggerX Yield Optimizer
@@ -41,7 +48,7 @@ import { COMPOUND_COMET_ADDRESS, COMPOUND_COMET_ABI } from './contracts/compound
 
 interface YieldOptimizerConfig {
   safeAddress: string;
-  tokenAddress: string;
+  assets: string[]; // token addresses, each rebalanced on its own
   minYieldDifference: number; // basis points (e.g., 50 = 0.5%)
   checkInterval: number; // seconds (e.g., 60 = 1 minute)
   jobDuration: number; // seconds (e.g., 300 = 5 minutes)
@@ -73,122 +80,97 @@ function generatePlaceholderTransaction(
   }];
 }
 
+/**
+ * Derive the dynamic-arguments endpoint served next to the monitor API
+ * (e.g. https://app.example/api/monitor -> https://app.example/api/rebalance)
+ */
+function deriveRebalanceEndpoint(monitorApiUrl: string): string | undefined {
+  const url = monitorApiUrl.replace(/\/monitor\/?(\?.*)?$/, '/rebalance');
+  return url !== monitorApiUrl ? url : undefined;
+}
+
+/**
+ * Check that TriggerX servers can reach a URL
+ */
+function isPublicUrl(url: string): boolean {
+  return url.startsWith('http') && !url.includes('localhost') && !url.includes('127.0.0.1');
+}
+
 /**
  * Generate rebalancing transactions based on current state
+ * Every asset is decided on its own and the moves of all assets are returned together;
+ * each asset's steps are simulated from the Safe first, and one that would revert is rejected.
+ * Creating a job decides nothing yet, so no hysteresis observation or history sample is recorded
  */
 async function generateRebalanceTransactions(
-  provider: ethers.Provider,
+  provider: ethers.JsonRpcProvider,
   config: YieldOptimizerConfig
 ): Promise<{ to: string; value: string; data: string }[]> {
-  console.log('Analyzing current position...\n');
+  console.log('Analyzing current positions...\n');
   
-  const yieldData = await compareYields();
+  const comparisons = (await compareAllAssets({ persist: false })).filter(yieldData => config.assets.includes(yieldData.asset.address));
+  const transactions: SafeTransaction[] = [];
   
-  if (!yieldData.shouldMove) {
-    console.log('INFO: No rebalancing needed at this time.');
-    return [];
+  for (const yieldData of comparisons) {
+    const { asset, plan } = yieldData;
+    if (!yieldData.shouldMove) {
+      console.log(`INFO: No ${asset.symbol} rebalancing needed at this time.`);
+      continue;
+    }
+    
+    console.log(`${asset.symbol} position: ${yieldData.currentProtocols.join(', ') || 'none'}`);
+    console.log(`Better protocol: ${yieldData.betterProtocol}`);
+    console.log(`Yield difference: ${(yieldData.difference / 100).toFixed(2)}%\n`);
+    
+    // Execute the plan: consolidation into the best venue, or delta moves towards target weights
+    for (const withdrawal of plan.withdrawals) {
+      console.log(`Amount to rebalance: ${ethers.formatUnits(withdrawal.amount, asset.decimals)} ${asset.symbol} from ${getAdapter(withdrawal.protocol).name}`);
+    }
+    console.log('');
+    
+    // Assets touch separate balances, so each asset's steps can be checked on their own
+    const assetTransactions = buildRebalanceTransactions(plan, asset.address, config.safeAddress, asset.decimals);
+    await assertRebalanceSimulates(provider, assetTransactions, asset.address, config.safeAddress, plan);
+    console.log('');
+    
+    transactions.push(...assetTransactions);
   }
   
-  console.log(`Current position: ${yieldData.currentProtocol}`);
-  console.log(`Better protocol: ${yieldData.betterProtocol}`);
-  console.log(`Yield difference: ${(yieldData.difference / 100).toFixed(2)}%\n`);
-  
-  const transactions: { to: string; value: string; data: string }[] = [];
-  
-  // Get balances - we'll move ALL funds from the current protocol
-  const { getAaveBalance } = await import('./contracts/aave');
-  const { getCompoundBalance } = await import('./contracts/compound');
-  
-  const aaveBalance = await getAaveBalance(provider, config.tokenAddress, config.safeAddress);
-  const compoundBalance = await getCompoundBalance(provider, config.safeAddress);
-  
-  // Get ALL funds from the current protocol (this is what we'll move)
-  const amountToMove = yieldData.currentProtocol === 'aave' ? aaveBalance : compoundBalance;
-  
-  if (amountToMove === 0n) {
-    console.log('WARNING: No funds to rebalance');
+  if (transactions.length === 0) {
+    console.log('INFO: No rebalancing needed at this time.');
     return [];
   }
   
-  console.log(`Amount to rebalance: ${ethers.formatUnits(amountToMove, 6)} USDC (ALL funds from ${yieldData.currentProtocol})\n`);
-  
-  // Step 1: Withdraw from current protocol
-  if (yieldData.currentProtocol === 'aave') {
-    console.log('Step 1: Withdrawing from Aave...');
-    const aaveInterface = new ethers.Interface(AAVE_POOL_ABI);
-    transactions.push({
-      to: AAVE_POOL_ADDRESS,
-      value: '0',
-      data: aaveInterface.encodeFunctionData('withdraw', [
-        config.tokenAddress,
-        amountToMove.toString(),
-        config.safeAddress
-      ])
-    });
-  } else if (yieldData.currentProtocol === 'compound') {
-    console.log('Step 1: Withdrawing from Compound...');
-    const compoundInterface = new ethers.Interface(COMPOUND_COMET_ABI);
-    transactions.push({
-      to: COMPOUND_COMET_ADDRESS,
-      value: '0',
-      data: compoundInterface.encodeFunctionData('withdraw', [
-        config.tokenAddress,
-        amountToMove.toString()
-      ])
-    });
-  }
-  
-  // Step 2: Approve new protocol
-  console.log(`Step 2: Approving ${yieldData.betterProtocol}...`);
-  const tokenInterface = new ethers.Interface(ERC20_ABI);
-  const approveAddress = yieldData.betterProtocol === 'aave' ? AAVE_POOL_ADDRESS : COMPOUND_COMET_ADDRESS;
-  transactions.push({
-    to: config.tokenAddress,
-    value: '0',
-    data: tokenInterface.encodeFunctionData('approve', [
-      approveAddress,
-      amountToMove.toString()
-    ])
-  });
-  
-  // Step 3: Deposit to better protocol
-  if (yieldData.betterProtocol === 'aave') {
-    console.log('Step 3: Depositing to Aave...');
-    const aaveInterface = new ethers.Interface(AAVE_POOL_ABI);
-    transactions.push({
-      to: AAVE_POOL_ADDRESS,
-      value: '0',
-      data: aaveInterface.encodeFunctionData('supply', [
-        config.tokenAddress,
-        amountToMove.toString(),
-        config.safeAddress,
-        '0'
-      ])
-    });
-  } else if (yieldData.betterProtocol === 'compound') {
-    console.log('Step 3: Depositing to Compound...');
-    const compoundInterface = new ethers.Interface(COMPOUND_COMET_ABI);
-    transactions.push({
-      to: COMPOUND_COMET_ADDRESS,
-      value: '0',
-      data: compoundInterface.encodeFunctionData('supply', [
-        config.tokenAddress,
-        amountToMove.toString()
-      ])
-    });
-  }
-  
-  console.log(`\nSUCCESS: Generated ${transactions.length} transactions for rebalancing\n`);
-  
+  console.log(`SUCCESS: Generated ${transactions.length} transactions for rebalancing\n`);
   return transactions;
 }
 
+/**
+ * Bundle rebalance steps into the single Safe transaction the job submits
+ * Several steps become one MultiSendCallOnly call executed with DELEGATECALL, so a
+ * failing step reverts them all; a lone step is submitted as a plain CALL
+ */
+export function bundleForJob(transactions: SafeTransaction[]): SafeTransaction[] {
+  const action = buildSafeAction(transactions);
+  if (transactions.length > 1) {
+    console.log(`Bundled ${transactions.length} steps into one atomic MultiSend to ${action.to} (${ethers.dataLength(action.data)} bytes)`);
+  }
+  return [action];
+}
+
+/**
+ * Find the job ID in a createJob response (its shape differs between SDK versions)
+ */
+export function extractJobId(result: any): string | undefined {
+  return result?.jobId || result?.id || result?.data?.jobId || result?.data?.id || result?.job?.id;
+}
+
 /**
  * Create a TriggerX job for automated yield optimization
  */
 export async function createYieldOptimizerJob(
   config: YieldOptimizerConfig
-): Promise<string> {
+): Promise<string | undefined> {
   console.log('Creating TriggerX Yield Optimizer Job\n');
   console.log('═══════════════════════════════════════════════════════════\n');
   
@@ -196,15 +178,12 @@ export async function createYieldOptimizerJob(
   if (!process.env.PRIVATE_KEY) {
     throw new Error('PRIVATE_KEY not set in .env');
   }
-  if (!process.env.RPC_URL) {
-    throw new Error('RPC_URL not set in .env');
-  }
   
-  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+  const { config: settings, provider } = await connect();
   const signer = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
   
   // Check if using localhost fork - TriggerX requires real network
-  const isLocalFork = process.env.RPC_URL?.includes('localhost') || process.env.RPC_URL?.includes('127.0.0.1');
+  const isLocalFork = settings.rpcUrl.includes('localhost') || settings.rpcUrl.includes('127.0.0.1');
   if (isLocalFork) {
     console.log('\nWARNING: You are using a local fork!');
     console.log('   TriggerX is a real service that requires the actual blockchain network.');
@@ -216,7 +195,7 @@ export async function createYieldOptimizerJob(
   
   console.log('Configuration:');
   console.log(`   Safe Address: ${config.safeAddress}`);
-  console.log(`   Token: ${config.tokenAddress}`);
+  console.log(`   Assets: ${config.assets.map(getAssetLabel).join(', ')}`);
   console.log(`   Min Yield Diff: ${config.minYieldDifference} bp (${(config.minYieldDifference / 100).toFixed(2)}%)`);
   console.log(`   Check Interval: ${config.checkInterval}s (${Math.floor(config.checkInterval / 3600)}h)`);
   console.log(`   Job Duration: ${config.jobDuration}s (${Math.floor(config.jobDuration / 86400)}d)`);
@@ -239,12 +218,15 @@ export async function createYieldOptimizerJob(
   const rebalanceTransactions = await generateRebalanceTransactions(provider, config);
   
   // Determine if we should use static or dynamic transactions
+  // Dynamic jobs get fresh calldata from api/rebalance when the condition fires,
+  // so they are preferred whenever that endpoint is reachable
   const hasTransactions = rebalanceTransactions.length > 0;
-  const dynamicScriptUrl = process.env.DYNAMIC_TRANSACTIONS_SCRIPT_URL;
+  const dynamicScriptUrl = settings.job.dynamicScriptUrl || deriveRebalanceEndpoint(config.monitorApiUrl);
+  const useDynamic = !!dynamicScriptUrl && isPublicUrl(dynamicScriptUrl);
   
   if (!hasTransactions && !dynamicScriptUrl) {
     console.log('INFO: No rebalancing needed currently. Job will monitor for changes.');
-    console.log('WARNING: Note: For condition-based jobs, consider providing DYNAMIC_TRANSACTIONS_SCRIPT_URL');
+    console.log('WARNING: Note: For condition-based jobs, consider providing job.dynamicScriptUrl (DYNAMIC_TRANSACTIONS_SCRIPT_URL)');
     console.log('   to generate transactions dynamically when the condition is met.');
   }
   
@@ -252,7 +234,7 @@ export async function createYieldOptimizerJob(
   // Check wallet balance for autotopup decision
   const walletBalance = await provider.getBalance(await signer.getAddress());
   const walletBalanceEth = parseFloat(ethers.formatEther(walletBalance));
-  const shouldAutotopup = process.env.AUTOTOPUP_TG !== 'false' && walletBalanceEth >= 0.01;
+  const shouldAutotopup = settings.job.autotopupTG && walletBalanceEth >= 0.01;
   
   console.log(`   Wallet ETH Balance: ${walletBalanceEth.toFixed(6)} ETH`);
   if (walletBalanceEth < 0.01) {
@@ -267,7 +249,7 @@ export async function createYieldOptimizerJob(
     conditionType: 'greater_than',
     upperLimit: config.minYieldDifference, // Trigger when difference > this
     lowerLimit: 0, // Required for condition-based jobs
-    argType: hasTransactions && !dynamicScriptUrl ? ArgType.Static : ArgType.Dynamic,
+    argType: useDynamic ? ArgType.Dynamic : ArgType.Static,
     
     jobTitle: 'Yield Optimizer - Aave ↔ Compound',
     timeFrame: config.jobDuration,
@@ -275,12 +257,12 @@ export async function createYieldOptimizerJob(
     // Value source: your deployed yield monitor API
     // NOTE: This must be publicly accessible (not localhost) for TriggerX servers to access it
     valueSourceType: 'api',
-    valueSourceUrl: config.monitorApiUrl, // Must be publicly accessible URL
+    valueSourceUrl: authorizeUrl(config.monitorApiUrl, config.jobDuration), // Must be publicly accessible URL, carries API credentials if set
     
     // Timezone is required (IANA timezone string)
-    timezone: process.env.TIMEZONE || 'UTC',
+    timezone: settings.job.timezone,
     
-    chainId: process.env.CHAIN_ID || '42161',
+    chainId: String(settings.chainId),
     
     // Safe wallet mode
     walletMode: 'safe',
@@ -292,37 +274,34 @@ export async function createYieldOptimizerJob(
     autotopupTG: shouldAutotopup, // Only enable if sufficient ETH
   };
   
-  // For static jobs, provide transactions. For dynamic jobs, provide script URL
-  if (hasTransactions && !dynamicScriptUrl) {
-    // Use static transactions
-    jobInput.safeTransactions = rebalanceTransactions;
-    jobInput.argType = ArgType.Static;
-    console.log(`Using static transactions (${rebalanceTransactions.length} transaction(s))`);
-  } else if (dynamicScriptUrl && dynamicScriptUrl.startsWith('http')) {
-    // Use dynamic script URL (only if it's a publicly accessible URL, not localhost)
-    const isPublicUrl = !dynamicScriptUrl.includes('localhost') && !dynamicScriptUrl.includes('127.0.0.1');
-    if (isPublicUrl) {
-      jobInput.dynamicArgumentsScriptUrl = dynamicScriptUrl;
-      jobInput.argType = ArgType.Dynamic;
-      console.log(`Using dynamic transactions script: ${dynamicScriptUrl}`);
-    } else {
+  // For dynamic jobs, provide the script URL. For static jobs, provide transactions
+  if (useDynamic) {
+    jobInput.dynamicArgumentsScriptUrl = authorizeUrl(dynamicScriptUrl, config.jobDuration);
+    jobInput.argType = ArgType.Dynamic;
+    console.log(`Using dynamic transactions script: ${dynamicScriptUrl}`);
+    console.log(`   The endpoint must be deployed with JOB_OWNER_ADDRESS=${await signer.getAddress()}`);
+  } else if (hasTransactions) {
+    if (dynamicScriptUrl) {
       console.log('WARNING: Dynamic script URL is localhost - TriggerX servers cannot access it.');
-      console.log('   Falling back to placeholder transaction. Use a publicly accessible URL for dynamic mode.');
-      // Fall through to placeholder transaction
-      const placeholderTx = generatePlaceholderTransaction(config.safeAddress);
-      jobInput.safeTransactions = placeholderTx;
-      jobInput.argType = ArgType.Static;
-      console.log('Using placeholder transaction (job will need to be updated when condition triggers)');
+      console.log('   Falling back to the transactions generated now.');
     }
+    // Use static transactions, bundled so the rebalance can't stop halfway
+    jobInput.safeTransactions = bundleForJob(rebalanceTransactions);
+    jobInput.argType = ArgType.Static;
+    console.log(`Using static transactions (${rebalanceTransactions.length} step(s) in one Safe transaction)`);
   } else {
     // No transactions and no valid dynamic script URL
     // Create a placeholder transaction so the job can be created
     // Note: This is a no-op transaction. When the condition triggers and there are funds,
     // the job will need to be updated with actual transactions or use dynamic mode
+    if (dynamicScriptUrl) {
+      console.log('WARNING: Dynamic script URL is localhost - TriggerX servers cannot access it.');
+    }
     console.log('WARNING: No initial transactions found.');
     console.log('   Creating job with placeholder transaction.');
-    console.log('   When the condition triggers and funds are available, update the job with actual transactions.');
-    console.log('   Or set DYNAMIC_TRANSACTIONS_SCRIPT_URL to a publicly accessible URL for dynamic mode.');
+    console.log('   When the condition triggers and funds are available, update the job with actual transactions:');
+    console.log('   npm run jobs -- update <jobId> --refresh-transactions');
+    console.log('   Or deploy api/rebalance.ts at a publicly accessible URL for dynamic mode.');
     
     const placeholderTx = generatePlaceholderTransaction(config.safeAddress);
     jobInput.safeTransactions = placeholderTx;
@@ -332,6 +311,9 @@ export async function createYieldOptimizerJob(
   
   console.log('Submitting job to TriggerX...\n');
   
+  // createJob fills in module fields on its input; keep what was submitted for recreating the job
+  const submittedInput = JSON.parse(JSON.stringify(jobInput));
+  
   try {
     const result = await createJob(client, { jobInput, signer });
     
@@ -341,13 +323,15 @@ export async function createYieldOptimizerJob(
     console.log('');
     
     // Try different possible response structures
-    const jobId = result?.jobId || result?.id || result?.data?.jobId || result?.data?.id || result?.job?.id;
+    const jobId = extractJobId(result);
     
     console.log('═══════════════════════════════════════════════════════════\n');
     if (jobId) {
       console.log('SUCCESS: Yield Optimizer Job Created Successfully!\n');
       console.log(`Job ID: ${jobId}`);
-      console.log(`View on TriggerX: https://app.triggerx.network/jobs/${jobId}\n`);
+      console.log(`View on TriggerX: https://app.triggerx.network/jobs/${jobId}`);
+      recordJob(jobId, submittedInput);
+      console.log(`Recorded in ${getJobsFile()} - manage it with: npm run jobs -- list\n`);
     } else {
       console.log('WARNING: Job creation response received, but Job ID not found in expected format\n');
       console.log('Response structure:');
@@ -361,7 +345,7 @@ export async function createYieldOptimizerJob(
     console.log('   4. Execute safely through your Safe wallet\n');
     console.log('═══════════════════════════════════════════════════════════\n');
     
-    return result.jobId;
+    return jobId;
   } catch (error: any) {
     console.error('ERROR: Error creating job:', error.message);
     throw error;
@@ -374,31 +358,28 @@ export async function createYieldOptimizerJob(
 async function main() {
   console.log('\nTriggerX Yield Optimizer Setup\n');
   
-  // Validate required environment variables
-  const required = [
-    'PRIVATE_KEY',
-    'RPC_URL',
-    'SAFE_WALLET_ADDRESS',
-    'TOKEN_ADDRESS',
-    'TRIGGERX_API_KEY',
-    'MONITOR_URL'
-  ];
+  const { config: settings } = await connect();
   
-  const missing = required.filter(key => !process.env[key]);
+  // Validate required secrets (env only) and settings
+  const missing = [
+    ...['PRIVATE_KEY', 'TRIGGERX_API_KEY'].filter(key => !process.env[key]),
+    ...(settings.safeAddress ? [] : ['safeAddress (SAFE_WALLET_ADDRESS)']),
+    ...(settings.job.monitorUrl ? [] : ['job.monitorUrl (MONITOR_URL)'])
+  ];
   if (missing.length > 0) {
-    console.error('ERROR: Missing required environment variables:');
+    console.error('ERROR: Missing required settings:');
     missing.forEach(key => console.error(`   - ${key}`));
-    console.error('\nPlease check your .env file.\n');
+    console.error('\nPlease check your .env file or optimizer.config.json.\n');
     process.exit(1);
   }
   
   const config: YieldOptimizerConfig = {
-    safeAddress: process.env.SAFE_WALLET_ADDRESS!,
-    tokenAddress: process.env.TOKEN_ADDRESS!,
-    minYieldDifference: parseInt(process.env.MIN_YIELD_DIFFERENCE || '50'),
-    checkInterval: parseInt(process.env.CHECK_INTERVAL || '60'), // 1 hour
-    jobDuration: parseInt(process.env.JOB_DURATION || '300'), // 30 days
-    monitorApiUrl: process.env.MONITOR_URL!,
+    safeAddress: settings.safeAddress!,
+    assets: getAssetAddresses(),
+    minYieldDifference: settings.thresholds.minYieldDifference,
+    checkInterval: settings.job.checkInterval,
+    jobDuration: settings.job.jobDuration,
+    monitorApiUrl: settings.job.monitorUrl!,
   };
   
   await createYieldOptimizerJob(config);
@@ -1,5 +1,7 @@
 import { ethers } from 'ethers';
 import * as dotenv from 'dotenv';
+import { resolveSafeModuleAddress } from './safeModule';
+import { connect, loadConfig } from './config';
 
 dotenv.config();
 
@@ -10,39 +12,20 @@ const SAFE_ABI = [
 ];
 
 async function checkSafe() {
-    const safeAddress = process.env.SAFE_WALLET_ADDRESS;
-    const rpcUrl = process.env.RPC_URL;
-    const chainId = process.env.CHAIN_ID || '42161';
+    console.log(`\nConnecting to RPC: ${loadConfig().rpcUrl}`);
     
-    if (!safeAddress) {
-        console.error('ERROR: SAFE_WALLET_ADDRESS not set in .env');
-        process.exit(1);
-    }
+    // Refuses an RPC on another chain than the configured network
+    const { config, provider } = await connect();
+    const safeAddress = config.safeAddress;
+    const rpcUrl = config.rpcUrl;
+    const chainId = String(config.chainId);
+    console.log(`Network: ${config.network} (Chain ID: ${chainId})`);
     
-    if (!rpcUrl) {
-        console.error('ERROR: RPC_URL not set in .env');
+    if (!safeAddress) {
+        console.error('ERROR: SAFE_WALLET_ADDRESS not set in .env or optimizer.config.json');
         process.exit(1);
     }
     
-    console.log(`\nConnecting to RPC: ${rpcUrl}`);
-    const provider = new ethers.JsonRpcProvider(rpcUrl);
-    
-    // Get network info
-    try {
-        const network = await provider.getNetwork();
-        console.log(`Network: ${network.name} (Chain ID: ${network.chainId})`);
-        console.log(`   Expected Chain ID: ${chainId}`);
-        
-        if (network.chainId.toString() !== chainId) {
-            console.log(`\nWARNING: Network mismatch!`);
-            console.log(`   RPC is on chain ${network.chainId}, but CHAIN_ID is set to ${chainId}`);
-            console.log(`\nThis is likely the cause of your error!`);
-            console.log(`   Update CHAIN_ID in .env to match the network: ${network.chainId}`);
-        }
-    } catch (error: any) {
-        console.log(`\nWARNING: Could not detect network from RPC: ${error.message}`);
-    }
-    
     // Check if address is a contract
     console.log(`\nChecking if address is a contract...`);
     const code = await provider.getCode(safeAddress);
@@ -84,12 +67,15 @@ async function checkSafe() {
         });
         console.log(`   Threshold: ${threshold}`);
         
-        // Check if it's a single-owner Safe
+        // Single-owner Safes use the module flow; multi-owner Safes execute through proposals
         if (owners.length === 1 && threshold.toString() === '1') {
             console.log(`\nSUCCESS: Safe wallet is properly configured (single owner)`);
         } else {
-            console.log(`\nWARNING: Safe wallet must have exactly 1 owner with threshold 1`);
-            console.log(`   Current: ${owners.length} owner(s), threshold ${threshold}`);
+            console.log(`\nSUCCESS: Safe wallet is a ${threshold}-of-${owners.length} multi-owner Safe`);
+            console.log(`   Rebalances need ${threshold} owner signature(s); use Safe transaction proposals:`);
+            console.log(`   npm run safe-proposal -- propose   # unsigned SafeTx JSON for offline signing`);
+            console.log(`   npm run safe-proposal -- sign      # sign with SAFE_SIGNER_KEYS / SAFE_SIGNER_KEYSTORES`);
+            console.log(`   npm run safe-proposal -- execute   # execute once the threshold is met`);
         }
         
     } catch (error: any) {
@@ -109,6 +95,23 @@ async function checkSafe() {
         }
         process.exit(1);
     }
+    
+    // Check the TriggerX module is enabled (full check: npm run setup-module -- --check)
+    console.log(`\nChecking TriggerX Safe module...`);
+    try {
+        const moduleAddress = resolveSafeModuleAddress(chainId);
+        const safe = new ethers.Contract(safeAddress, SAFE_ABI, provider);
+        const enabled = await safe.isModuleEnabled(moduleAddress);
+        
+        if (enabled) {
+            console.log(`SUCCESS: Module ${moduleAddress} is enabled`);
+        } else {
+            console.log(`WARNING: Module ${moduleAddress} is not enabled - TriggerX jobs cannot execute`);
+            console.log(`   Enable it with: npm run setup-module`);
+        }
+    } catch (error: any) {
+        console.log(`WARNING: Could not check the TriggerX module: ${error.message}`);
+    }
 }
 
 checkSafe().catch(console.error);
@@ -1,95 +1,332 @@
 import { ethers } from 'ethers';
-import * as dotenv from 'dotenv';
-import { getAaveAPY, getAaveBalance } from './contracts/aave';
-import { getCompoundAPY, getCompoundBalance } from './contracts/compound';
-
-dotenv.config();
+import { ProtocolId } from './contracts/adapter';
+import { getAdapter, getAdaptersForToken } from './contracts/registry';
+import { ProtocolPosition, RebalancePlan, netPlanDeltas, buildRebalanceTransactions, sizeSuppliesToAvailable } from './rebalance';
+import { AllocationStrategy, TargetWeights, loadStrategyConfig } from './strategy';
+import { ProtocolYield, rankProtocols, decideRebalance } from './decision';
+import {
+  Profitability,
+  loadCostConfig,
+  projectYieldGain,
+  estimateSlippage,
+  getEthPriceInToken,
+  convertWeiToToken,
+  estimateGasCostInWei,
+  evaluateProfitability
+} from './costs';
+import {
+  HysteresisDecision,
+  loadHysteresisConfig,
+  loadOptimizerState,
+  saveOptimizerState,
+  recordVenue,
+  observeSpread
+} from './hysteresis';
+import { SampleSource, appendSample } from './history/store';
+import { Asset, getAsset, getAssetAddresses } from './assets';
+import { protocolApy, protocolUtilization, setMetric } from './metrics';
+import { connect, requireSetting } from './config';
+import { getRecentSamples, smoothAPYs } from './history/query';
 
 interface YieldComparison {
+  asset: Asset; // token this decision is for
   timestamp: number;
-  aaveAPY: number;
-  compoundAPY: number;
-  difference: number;
-  betterProtocol: 'aave' | 'compound' | 'equal';
+  apys: Record<ProtocolId, number>; // APYs decisions are based on (smoothed when thresholds.decisionRateWindow is set)
+  spotAPYs: Record<ProtocolId, number>; // APYs read on-chain this run
+  utilization: Record<ProtocolId, number>; // basis points, for protocols reporting it
+  rankings: ProtocolYield[]; // protocols with a market for the asset, highest APY first
+  difference: number; // best APY minus the lowest APY of any venue holding funds
+  betterProtocol: ProtocolId | 'equal';
   shouldMove: boolean;
-  currentProtocol: 'aave' | 'compound' | 'none';
+  currentProtocols: ProtocolId[]; // venues holding a balance, largest first
+  positions: ProtocolPosition[]; // per-venue breakdown of the Safe's funds
+  strategy: AllocationStrategy;
+  targetWeights: TargetWeights; // target share per venue in basis points
+  plan: RebalancePlan; // withdrawals and supplies reaching the target allocation
+  projectedAPYs: Record<ProtocolId, number>; // APYs once the plan has moved liquidity
+  projectedDifference: number; // post-move APY gain of the least favourable move
+  profitability?: Profitability; // expected gain vs. execution costs, when a move was considered
+  hysteresis?: HysteresisDecision; // enter/exit, confirmation and dwell-time gate ('best' strategy)
+}
+
+interface CompareOptions {
+  safeAddress?: string; // Safe whose position is checked (default: safeAddress)
+  spotAPYs?: Record<ProtocolId, number>; // rates already read (and checked) by the caller
+  utilization?: Record<ProtocolId, number>; // utilization read together with spotAPYs
+  source?: SampleSource; // history source of the recorded sample (default 'optimizer')
+  persist?: boolean; // save the hysteresis observation and the history sample (default true); false for read-only checks
 }
 
-async function compareYields(): Promise<YieldComparison> {
-  if (!process.env.RPC_URL || !process.env.TOKEN_ADDRESS || !process.env.SAFE_WALLET_ADDRESS) {
-    throw new Error('Missing required environment variables');
+/**
+ * Estimate every protocol's APY once the plan has been executed
+ * Our own deposit lowers the receiving venue's utilization (and rate) while
+ * withdrawals raise the rate of the venues we leave
+ */
+async function projectPlanAPYs(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  plan: RebalancePlan,
+  apys: Record<ProtocolId, number>
+): Promise<Record<ProtocolId, number>> {
+  const deltas = netPlanDeltas(plan);
+  const projected: Record<ProtocolId, number> = { ...apys };
+
+  await Promise.all(getAdaptersForToken(tokenAddress).map(async adapter => {
+    const delta = deltas[adapter.id] ?? 0n;
+    if (delta !== 0n && adapter.getProjectedSupplyAPY) {
+      projected[adapter.id] = await adapter.getProjectedSupplyAPY(provider, tokenAddress, delta);
+    }
+  }));
+
+  return projected;
+}
+
+/**
+ * Weigh the extra yield of executing the plan against gas, job fees and slippage
+ * Gas and job fees are paid in ETH; when ETH cannot be priced in the token,
+ * the move is treated as unprofitable
+ */
+async function checkProfitability(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  decimals: number,
+  safeAddress: string,
+  positions: ProtocolPosition[],
+  plan: RebalancePlan,
+  apys: Record<ProtocolId, number>,
+  projectedAPYs: Record<ProtocolId, number>
+): Promise<Profitability> {
+  const costConfig = loadCostConfig();
+  const transactions = buildRebalanceTransactions(plan, tokenAddress, safeAddress, decimals, false);
+
+  const expectedGain = projectYieldGain(positions, plan, apys, projectedAPYs, costConfig.horizonDays);
+  const slippage = estimateSlippage(plan, costConfig.withdrawSlippageBps);
+  const ethPrice = await getEthPriceInToken(provider, tokenAddress, decimals);
+
+  if (ethPrice === null) {
+    return {
+      ...evaluateProfitability(expectedGain, 0n, 0n, slippage, costConfig.horizonDays, decimals),
+      profitable: false,
+      reason: 'Gas and job fees could not be priced in the token (no oracle price and no costs.ethPrices entry for it)'
+    };
   }
 
-  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-  const tokenAddress = process.env.TOKEN_ADDRESS;
-  const safeAddress = process.env.SAFE_WALLET_ADDRESS;
-  const minYieldDifference = parseInt(process.env.MIN_YIELD_DIFFERENCE || '50');
+  const gasCost = convertWeiToToken(await estimateGasCostInWei(provider, transactions, safeAddress, costConfig), ethPrice);
+  const jobFee = convertWeiToToken(ethers.parseEther(costConfig.jobFeeEth), ethPrice);
 
-  console.log(' Fetching yield data...\n');
+  return evaluateProfitability(expectedGain, gasCost, jobFee, slippage, costConfig.horizonDays, decimals);
+}
+
+/**
+ * Compare yields and decide the rebalance of one asset
+ * Only protocols with a market for the token are compared
+ * @param tokenAddress Asset to check (default: tokenAddress)
+ * @param options Another Safe, or rates the caller has already read
+ */
+async function compareYields(tokenAddress?: string, options: CompareOptions = {}): Promise<YieldComparison> {
+  const { config, provider } = await connect();
+  const asset = await getAsset(provider, tokenAddress ?? config.tokenAddress);
+  const safeAddress = options.safeAddress ?? requireSetting(config.safeAddress, 'safeAddress');
+  const minYieldDifference = config.thresholds.minYieldDifference;
+  const strategyConfig = loadStrategyConfig();
+  const adapters = getAdaptersForToken(asset.address);
+  if (adapters.length === 0) {
+    throw new Error(`No protocols available for ${asset.symbol}`);
+  }
+
+  console.log(` Fetching ${asset.symbol} yield data...\n`);
 
   // Check Safe wallet position (not EOA)
-  const [aaveAPY, compoundAPY, aaveBalance, compoundBalance] = await Promise.all([
-    getAaveAPY(provider, tokenAddress),
-    getCompoundAPY(provider),
-    getAaveBalance(provider, tokenAddress, safeAddress),
-    getCompoundBalance(provider, safeAddress)
+  const [apyList, balanceList, utilizationList] = await Promise.all([
+    Promise.all(adapters.map(adapter => options.spotAPYs?.[adapter.id] ?? adapter.getSupplyAPY(provider, asset.address))),
+    Promise.all(adapters.map(adapter => adapter.getBalance(provider, asset.address, safeAddress))),
+    Promise.all(adapters.map(adapter => options.utilization?.[adapter.id] ?? adapter.getUtilization?.(provider, asset.address)))
   ]);
 
-  console.log(` Aave APY: ${(aaveAPY / 100).toFixed(2)}%`);
-  console.log(` Compound APY: ${(compoundAPY / 100).toFixed(2)}%`);
+  const spotAPYs: Record<ProtocolId, number> = {};
+  const utilization: Record<ProtocolId, number> = {};
+  adapters.forEach((adapter, i) => {
+    spotAPYs[adapter.id] = apyList[i];
+    setMetric(protocolApy, { asset: asset.symbol, protocol: adapter.id }, apyList[i]);
+    if (utilizationList[i] !== undefined) {
+      utilization[adapter.id] = utilizationList[i] as number;
+      setMetric(protocolUtilization, { asset: asset.symbol, protocol: adapter.id }, utilization[adapter.id]);
+    }
+  });
+
+  // Optionally decide on rates averaged over recent history, so a single spike can't trigger a move
+  const rateWindow = config.thresholds.decisionRateWindow;
+  const apys = rateWindow > 0 ? smoothAPYs(getRecentSamples(rateWindow, undefined, asset.address), spotAPYs) : spotAPYs;
+  if (rateWindow > 0) {
+    console.log(` Using APYs averaged over the last ${rateWindow}s`);
+  }
+
+  const rankings = rankProtocols(
+    adapters.map(adapter => ({ protocol: adapter.id, name: adapter.name, apy: apys[adapter.id] }))
+  );
+  rankings.forEach((entry, i) => {
+    console.log(` ${i + 1}. ${entry.name} APY: ${(entry.apy / 100).toFixed(2)}%`);
+  });
+
+  const positions: ProtocolPosition[] = adapters.map((adapter, i) => ({
+    protocol: adapter.id,
+    name: adapter.name,
+    apy: apys[adapter.id],
+    balance: balanceList[i].toString()
+  }));
+  const funded = positions
+    .filter(position => BigInt(position.balance) > 0n)
+    .sort((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? 1 : BigInt(b.balance) < BigInt(a.balance) ? -1 : 0));
+  const currentProtocols = funded.map(position => position.protocol);
 
-  let currentProtocol: 'aave' | 'compound' | 'none' = 'none';
-  if (aaveBalance > 0n) {
-    currentProtocol = 'aave';
-    console.log(` Current position: Aave (${ethers.formatUnits(aaveBalance, 6)} tokens)`);
-  } else if (compoundBalance > 0n) {
-    currentProtocol = 'compound';
-    console.log(` Current position: Compound (${ethers.formatUnits(compoundBalance, 6)} tokens)`);
+  if (funded.length > 0) {
+    funded.forEach(position => {
+      console.log(` Current position: ${position.name} (${ethers.formatUnits(position.balance, asset.decimals)} ${asset.symbol})`);
+    });
   } else {
     console.log(` Current position: No funds deposited`);
   }
 
-  const difference = Math.abs(aaveAPY - compoundAPY);
-  let betterProtocol: 'aave' | 'compound' | 'equal';
+  const decision = decideRebalance(rankings, positions, strategyConfig, minYieldDifference);
+  const { difference, betterProtocol, targetWeights } = decision;
+  let { plan, shouldMove } = decision;
 
-  if (aaveAPY > compoundAPY) betterProtocol = 'aave';
-  else if (compoundAPY > aaveAPY) betterProtocol = 'compound';
-  else betterProtocol = 'equal';
+  // Supply what the Safe will really hold after the withdrawals, not the balance snapshot
+  if (shouldMove) {
+    plan = await sizeSuppliesToAvailable(provider, plan, asset.address, safeAddress, asset.decimals);
+  }
+  const best = rankings[0];
+
+  if (strategyConfig.strategy !== 'best') {
+    console.log(` Strategy: ${strategyConfig.strategy} (max ${(strategyConfig.maxProtocolWeight / 100).toFixed(2)}% per protocol)`);
+    rankings.forEach(entry => {
+      console.log(`   ${entry.name} target: ${(targetWeights[entry.protocol] / 100).toFixed(2)}%`);
+    });
+    console.log(` Max drift from target: ${(decision.drift / 100).toFixed(2)}%`);
+  }
+
+  // Rates hovering around the threshold must not flip funds back and forth
+  let hysteresis: HysteresisDecision | undefined;
+  if (strategyConfig.strategy === 'best') {
+    const hysteresisConfig = loadHysteresisConfig(asset.address, safeAddress);
+    const now = Date.now();
+    const candidate = betterProtocol === 'equal' ? null : betterProtocol;
+    let state = loadOptimizerState(hysteresisConfig.stateFile);
+    state = recordVenue(state, currentProtocols[0] ?? null, now);
+
+    // Only the deciding path records observations, so one trigger cycle counts once
+    const observation = observeSpread(state, candidate, difference, hysteresisConfig, now);
+    if (options.persist ?? true) {
+      saveOptimizerState(hysteresisConfig.stateFile, observation.state);
+    }
+    hysteresis = observation.decision;
 
-  const shouldMove = 
-    difference >= minYieldDifference && 
-    betterProtocol !== 'equal' && 
-    currentProtocol !== 'none' &&
-    currentProtocol !== betterProtocol;
+    // Sweeping leftovers into the venue that already holds most funds cannot ping-pong
+    const changesVenue = currentProtocols[0] !== best.protocol;
+    if (shouldMove && changesVenue && !hysteresis.allowed) {
+      console.log(` ${hysteresis.reason} - holding position`);
+      shouldMove = false;
+    }
+  }
+
+  // Compare post-move rates: a large deposit can erase the spread it is chasing
+  const projectedAPYs = await projectPlanAPYs(provider, asset.address, plan, apys);
+  const projectedDifference = plan.supplies.length > 0 && plan.withdrawals.length > 0
+    ? Math.min(...plan.supplies.map(supply => projectedAPYs[supply.protocol])) -
+      Math.max(...plan.withdrawals.map(withdrawal => projectedAPYs[withdrawal.protocol]))
+    : 0;
+
+  if (shouldMove) {
+    for (const protocol of Object.keys(netPlanDeltas(plan))) {
+      console.log(` ${getAdapter(protocol).name} APY after move: ${(projectedAPYs[protocol] / 100).toFixed(2)}%`);
+    }
+    if (strategyConfig.strategy === 'best' && projectedDifference < minYieldDifference) {
+      console.log(` Post-move difference ${(projectedDifference / 100).toFixed(2)}% is below threshold - our deposit would erase the spread`);
+      shouldMove = false;
+    }
+  }
+
+  // A yield edge is only worth acting on if it pays for the move itself
+  let profitability: Profitability | undefined;
+  if (shouldMove) {
+    profitability = await checkProfitability(provider, asset.address, asset.decimals, safeAddress, positions, plan, apys, projectedAPYs);
+    console.log(` ${profitability.reason}`);
+    if (!profitability.profitable) {
+      shouldMove = false;
+    }
+  }
 
   console.log(`\n Difference: ${(difference / 100).toFixed(2)}%`);
   console.log(` Better protocol: ${betterProtocol}`);
   console.log(` Should move funds: ${shouldMove ? 'YES' : 'NO'}\n`);
 
+  const timestamp = Date.now();
+  if (options.persist ?? true) {
+    appendSample({
+      timestamp,
+      source: options.source ?? 'optimizer',
+      asset: asset.address,
+      decimals: asset.decimals,
+      apys: spotAPYs,
+      utilization,
+      balances: Object.fromEntries(positions.map(position => [position.protocol, position.balance])),
+      difference,
+      shouldMove
+    });
+  }
+
   return {
-    timestamp: Date.now(),
-    aaveAPY,
-    compoundAPY,
+    asset,
+    timestamp,
+    apys,
+    spotAPYs,
+    utilization,
+    rankings,
     difference,
     betterProtocol,
     shouldMove,
-    currentProtocol
+    currentProtocols,
+    positions,
+    strategy: strategyConfig.strategy,
+    targetWeights,
+    plan,
+    projectedAPYs,
+    projectedDifference,
+    profitability,
+    hysteresis
   };
 }
 
+/**
+ * Compare yields of every managed asset (see src/assets.ts)
+ * Each asset gets its own decision; they run one after another so the logs stay readable
+ * @param options Passed to every compareYields (e.g. persist: false)
+ */
+async function compareAllAssets(options: Pick<CompareOptions, 'persist'> = {}): Promise<YieldComparison[]> {
+  // The network (and with it the asset list) may be picked from the RPC's chain
+  await connect();
+
+  const results: YieldComparison[] = [];
+  for (const tokenAddress of getAssetAddresses()) {
+    results.push(await compareYields(tokenAddress, options));
+  }
+  return results;
+}
+
 async function main() {
   console.log(' Yield Optimizer Monitor\n');
   try {
-    const result = await compareYields();
+    // A check only looks: it must not count as a hysteresis observation
+    const results = await compareAllAssets({ persist: false });
     console.log('\nFull Result:');
-    console.log(JSON.stringify(result, null, 2));
+    console.log(JSON.stringify(results.length === 1 ? results[0] : results, null, 2));
   } catch (error: any) {
     console.error(' Error:', error.message);
     process.exit(1);
   }
 }
 
-export { compareYields, YieldComparison };
+export { compareYields, compareAllAssets, rankProtocols, YieldComparison, CompareOptions, ProtocolYield };
 
 if (require.main === module) {
   main();
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import { signUrl, withApiGuard } from '../src/apiGuard';
+
+const SECRET = 'test-secret';
+
+process.env.NETWORK = 'arbitrum';
+process.env.API_HMAC_SECRET = SECRET;
+process.env.API_AUTH_TOKEN = '';
+process.env.API_RATE_LIMIT = '0';
+process.env.API_LOG_REQUESTS = 'false';
+
+// Minimal Vercel-style response: the guard only sets headers and a status
+function fakeResponse() {
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.headers = {} as Record<string, string>;
+  res.setHeader = (name: string, value: string) => { res.headers[name] = value; };
+  res.getHeader = (name: string) => res.headers[name];
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = () => res;
+  res.end = () => res;
+  return res;
+}
+
+async function request(url: string): Promise<number> {
+  const handler = withApiGuard('test', (_req, res) => res.status(200).end());
+  const res = fakeResponse();
+  const { pathname, search } = new URL(url);
+  await handler({ method: 'GET', url: `${pathname}${search}`, headers: {}, socket: {} }, res);
+  return res.statusCode;
+}
+
+describe('apiGuard HMAC', () => {
+  it('accepts a signed URL until it expires', async () => {
+    assert.equal(await request(signUrl('http://localhost/api/monitor?safe=0xA', SECRET, 3600)), 200);
+    assert.equal(await request(signUrl('http://localhost/api/monitor?safe=0xA', SECRET, -1)), 401);
+  });
+
+  it('refuses a signed URL whose expiry or query was changed', async () => {
+    const signed = new URL(signUrl('http://localhost/api/monitor?safe=0xA', SECRET, 3600));
+    const extended = new URL(signed);
+    extended.searchParams.set('expires', String(Number(signed.searchParams.get('expires')) + 3600));
+    assert.equal(await request(extended.toString()), 401);
+
+    const otherSafe = new URL(signed);
+    otherSafe.searchParams.set('safe', '0xB');
+    assert.equal(await request(otherSafe.toString()), 401);
+  });
+
+  it('refuses a signature without an expiry', async () => {
+    const signed = new URL(signUrl('http://localhost/api/monitor', SECRET, 3600));
+    signed.searchParams.delete('expires');
+    assert.equal(await request(signed.toString()), 401);
+  });
+});
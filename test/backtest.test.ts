@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { BacktestOptions, RatePoint, runBacktest } from '../src/backtest';
+
+// Moves are encoded against the Arbitrum markets, whatever network .env selects
+process.env.NETWORK = 'arbitrum';
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2024, 0, 1);
+
+// Arbitrum USDC, which has both an Aave reserve and a Compound market
+const OPTIONS: BacktestOptions = {
+  tokenAddress: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+  initialBalance: ethers.parseUnits('100000', 6),
+  startProtocol: 'aave',
+  minYieldDifference: 50,
+  decimals: 6,
+  gasPriceWei: ethers.parseUnits('0.01', 'gwei'),
+  ethPriceInToken: ethers.parseUnits('3000', 6),
+  strategyConfig: { strategy: 'best', maxProtocolWeight: 10000, minRebalanceDrift: 100 },
+  costConfig: { horizonDays: 30, jobFeeEth: '0', withdrawSlippageBps: 0, gasPerTransaction: 150000, moduleGasOverhead: 50000 },
+  hysteresisConfig: {
+    enterThreshold: 50,
+    exitThreshold: 50,
+    confirmations: 1,
+    minDwellSeconds: 0,
+    observationSpacingSeconds: 0,
+    stateFile: 'unused.json'
+  }
+};
+
+function series(apys: [number, number][]): RatePoint[] {
+  return apys.map(([aave, compound], i) => ({ timestamp: T0 + i * DAY, apys: { aave, compound } }));
+}
+
+describe('runBacktest', () => {
+  it('stays put while the spread is below the threshold', () => {
+    const result = runBacktest(series([[400, 420], [400, 430], [400, 410]]), OPTIONS);
+    assert.equal(result.rebalances, 0);
+    assert.equal(result.netBalance, result.baselineBalance);
+    assert.equal(result.vsBaseline, '0');
+  });
+
+  it('moves to the better venue and beats staying put', () => {
+    const result = runBacktest(series([[300, 800], [300, 800], [300, 800], [300, 800]]), OPTIONS);
+    assert.equal(result.rebalances, 1);
+    assert.ok(BigInt(result.gasPaid) > 0n);
+    assert.ok(BigInt(result.vsBaseline) > 0n);
+  });
+
+  it('accrues interest at the APY of the venue holding the funds', () => {
+    // 10% APY for one year
+    const result = runBacktest(
+      [{ timestamp: T0, apys: { aave: 1000 } }, { timestamp: T0 + 365 * DAY, apys: { aave: 1000 } }],
+      { ...OPTIONS, initialBalance: 1000000n }
+    );
+    assert.equal(result.finalBalance, '1100000');
+    assert.equal(result.baselineBalance, '1100000');
+  });
+
+  it('skips moves that do not pay for themselves', () => {
+    const result = runBacktest(series([[300, 800], [300, 800]]), {
+      ...OPTIONS,
+      costConfig: { ...OPTIONS.costConfig, jobFeeEth: '0.5' }
+    });
+    assert.equal(result.rebalances, 0);
+  });
+
+  it('refuses a start venue missing from the series', () => {
+    assert.throws(() => runBacktest(series([[300, 400]]), { ...OPTIONS, startProtocol: 'morpho' }), /not in the rate series/);
+    assert.throws(() => runBacktest([], OPTIONS), /empty/);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { convertWeiToToken, getConfiguredEthPrice, evaluateProfitability } from '../src/costs';
+
+// ETH prices are looked up among the Arbitrum tokens, whatever network .env selects
+process.env.NETWORK = 'arbitrum';
+process.env.ETH_PRICES = 'USDC:3000,WETH:1';
+
+const USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+const WETH = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1';
+const USDT = '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9';
+
+describe('costs', () => {
+  it('prices the same ETH amount in each asset with its own ETH price', () => {
+    const fee = ethers.parseEther('0.05');
+    assert.equal(convertWeiToToken(fee, getConfiguredEthPrice(USDC, 6)!), ethers.parseUnits('150', 6));
+    assert.equal(convertWeiToToken(fee, getConfiguredEthPrice(WETH.toLowerCase(), 18)!), fee);
+  });
+
+  it('has no configured price for tokens without an entry', () => {
+    assert.equal(getConfiguredEthPrice(USDT, 6), null);
+  });
+
+  it('is profitable only when the gain beats every cost', () => {
+    assert.equal(evaluateProfitability(1000n, 300n, 300n, 300n, 30, 6).profitable, true);
+    const result = evaluateProfitability(1000n, 400n, 300n, 300n, 30, 6);
+    assert.equal(result.profitable, false);
+    assert.equal(result.netGain, '0');
+  });
+});
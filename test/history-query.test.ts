@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { YieldSample } from '../src/history/store';
+import { percentile, summarizeSeries, summarizeHistory, smoothAPYs } from '../src/history/query';
+
+function sample(timestamp: number, apys: Record<string, number>, extra: Partial<YieldSample> = {}): YieldSample {
+  return {
+    timestamp,
+    source: 'optimizer',
+    apys,
+    utilization: {},
+    balances: {},
+    difference: Math.max(...Object.values(apys)) - Math.min(...Object.values(apys)),
+    ...extra
+  };
+}
+
+describe('percentile', () => {
+  it('interpolates between the closest ranks', () => {
+    const values = [40, 10, 30, 20];
+    assert.equal(percentile(values, 0), 10);
+    assert.equal(percentile(values, 50), 25);
+    assert.equal(percentile(values, 90), 37);
+    assert.equal(percentile(values, 100), 40);
+  });
+
+  it('is 0 for an empty series', () => {
+    assert.equal(percentile([], 50), 0);
+  });
+});
+
+describe('summarizeSeries', () => {
+  it('reports count, range, average and percentiles', () => {
+    assert.deepEqual(summarizeSeries([300, 100, 200]), { count: 3, min: 100, max: 300, average: 200, p50: 200, p90: 280, p99: 298 });
+    assert.deepEqual(summarizeSeries([]), { count: 0, min: 0, max: 0, average: 0, p50: 0, p90: 0, p99: 0 });
+  });
+});
+
+describe('summarizeHistory', () => {
+  it('summarizes each protocol, the spread and the moves', () => {
+    const summary = summarizeHistory([
+      sample(1000, { aave: 400, compound: 300 }, { utilization: { aave: 8000 } }),
+      sample(2000, { aave: 500, compound: 350 }, { shouldMove: true }),
+      sample(3000, { aave: 450 })
+    ]);
+
+    assert.equal(summary.from, 1000);
+    assert.equal(summary.to, 3000);
+    assert.equal(summary.samples, 3);
+    assert.equal(summary.moves, 1);
+    assert.equal(summary.apy.aave.count, 3);
+    assert.equal(summary.apy.aave.average, 450);
+    assert.equal(summary.apy.compound.count, 2);
+    assert.equal(summary.utilization.aave.max, 8000);
+    assert.equal(summary.difference.min, 0);
+  });
+});
+
+describe('smoothAPYs', () => {
+  it('averages recorded APYs with the current reading', () => {
+    const samples = [sample(1000, { aave: 400, compound: 300 }), sample(2000, { aave: 500, compound: 301 })];
+    assert.deepEqual(smoothAPYs(samples, { aave: 600, compound: 300 }), { aave: 500, compound: 300 });
+  });
+
+  it('keeps the current APY of protocols without history', () => {
+    assert.deepEqual(smoothAPYs([sample(1000, { aave: 400 })], { aave: 200, compound: 350 }), { aave: 300, compound: 350 });
+    assert.deepEqual(smoothAPYs([], { aave: 200 }), { aave: 200 });
+  });
+});
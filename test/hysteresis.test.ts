@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HysteresisConfig, OptimizerState, observeSpread, recordVenue } from '../src/hysteresis';
+
+const CONFIG: HysteresisConfig = {
+  enterThreshold: 50,
+  exitThreshold: 20,
+  confirmations: 3,
+  minDwellSeconds: 0,
+  observationSpacingSeconds: 60,
+  stateFile: 'unused.json'
+};
+
+const EMPTY: OptimizerState = {
+  currentProtocol: null,
+  enteredAt: 0,
+  candidate: null,
+  consecutiveObservations: 0,
+  lastObservedAt: 0
+};
+
+const MINUTE = 60 * 1000;
+const T0 = 1_700_000_000_000;
+
+/**
+ * Feed spreads one minute apart, funds held in aave
+ */
+function observeAll(spreads: number[], config: HysteresisConfig = CONFIG, start: OptimizerState = EMPTY) {
+  let state = recordVenue(start, 'aave', T0);
+  const decisions = spreads.map((spread, i) => {
+    const observation = observeSpread(state, 'compound', spread, config, T0 + i * MINUTE);
+    state = observation.state;
+    return observation.decision;
+  });
+  return { state, decisions };
+}
+
+describe('recordVenue', () => {
+  it('leaves the dwell timer unset on the very first observation', () => {
+    const state = recordVenue(EMPTY, 'aave', T0);
+    assert.equal(state.currentProtocol, 'aave');
+    assert.equal(state.enteredAt, 0);
+  });
+
+  it('restarts the dwell timer and drops an armed spread when funds move', () => {
+    const armed: OptimizerState = { ...EMPTY, currentProtocol: 'aave', candidate: 'compound', consecutiveObservations: 2, lastObservedAt: T0 };
+    const state = recordVenue(armed, 'compound', T0 + MINUTE);
+    assert.deepEqual(state, { ...armed, currentProtocol: 'compound', enteredAt: T0 + MINUTE, candidate: null, consecutiveObservations: 0 });
+    assert.equal(recordVenue(state, 'compound', T0 + 2 * MINUTE), state);
+  });
+});
+
+describe('observeSpread', () => {
+  it('allows a move once the spread is confirmed', () => {
+    const { decisions } = observeAll([60, 60, 60]);
+    assert.deepEqual(decisions.map(decision => decision.allowed), [false, false, true]);
+    assert.equal(decisions[0].reason, 'Spread seen 1/3 consecutive observations');
+    assert.equal(decisions[2].consecutiveObservations, 3);
+  });
+
+  it('counts observations closer than the spacing once', () => {
+    let state = recordVenue(EMPTY, 'aave', T0);
+    state = observeSpread(state, 'compound', 60, CONFIG, T0).state;
+    state = observeSpread(state, 'compound', 60, CONFIG, T0 + 1000).state;
+    assert.equal(state.consecutiveObservations, 1);
+    state = observeSpread(state, 'compound', 60, CONFIG, T0 + MINUTE).state;
+    assert.equal(state.consecutiveObservations, 2);
+  });
+
+  it('keeps an armed spread between the exit and enter thresholds', () => {
+    const { decisions } = observeAll([60, 30, 30]);
+    assert.equal(decisions[2].allowed, true);
+  });
+
+  it('disarms below the exit threshold and needs the enter threshold again', () => {
+    const { decisions } = observeAll([60, 60, 10, 30]);
+    assert.equal(decisions[2].candidate, null);
+    assert.match(decisions[2].reason, /below the exit threshold of 20 bp/);
+    assert.equal(decisions[3].candidate, null);
+    assert.match(decisions[3].reason, /below the enter threshold of 50 bp/);
+  });
+
+  it('holds a confirmed move until the dwell time has passed', () => {
+    const start: OptimizerState = { ...EMPTY, currentProtocol: 'aave', enteredAt: T0, lastObservedAt: T0 - MINUTE };
+    const config = { ...CONFIG, confirmations: 1, minDwellSeconds: 3600 };
+
+    const early = observeSpread(start, 'compound', 60, config, T0 + 10 * MINUTE).decision;
+    assert.equal(early.allowed, false);
+    assert.equal(early.dwellRemainingSeconds, 3000);
+    assert.equal(early.reason, 'Funds must stay in aave for another 3000s');
+
+    assert.equal(observeSpread(start, 'compound', 60, config, T0 + 60 * MINUTE).decision.allowed, true);
+  });
+
+  it('never moves towards the venue already holding the funds', () => {
+    const state = recordVenue(EMPTY, 'aave', T0);
+    const { decision } = observeSpread(state, 'aave', 100, CONFIG, T0);
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.reason, 'Funds are already in the best venue');
+  });
+});
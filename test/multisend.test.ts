@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SafeTransaction } from '../src/contracts/adapter';
+import {
+  OPERATION_CALL,
+  OPERATION_DELEGATECALL,
+  packMultiSendTransactions,
+  unpackMultiSendTransactions,
+  encodeMultiSend,
+  decodeMultiSend,
+  buildSafeAction
+} from '../src/multisend';
+
+const STEPS: SafeTransaction[] = [
+  { to: '0x1111111111111111111111111111111111111111', value: '0', data: '0x69328dec', operation: OPERATION_CALL },
+  { to: '0x2222222222222222222222222222222222222222', value: '5', data: '0x', operation: OPERATION_CALL },
+  { to: '0x3333333333333333333333333333333333333333', value: '0', data: '0x095ea7b3' + 'ab'.repeat(64), operation: OPERATION_CALL }
+];
+
+describe('multisend', () => {
+  it('round-trips transactions through multiSend calldata', () => {
+    assert.deepEqual(decodeMultiSend(encodeMultiSend(STEPS)), STEPS);
+  });
+
+  it('packs each step as operation | to | value | data length | data', () => {
+    const packed = packMultiSendTransactions([STEPS[0]]);
+    // 1 + 20 + 32 + 32 bytes of header, then 4 bytes of data
+    assert.equal((packed.length - 2) / 2, 85 + 4);
+    assert.deepEqual(unpackMultiSendTransactions(packed), [STEPS[0]]);
+  });
+
+  it('refuses DELEGATECALL steps, which MultiSendCallOnly rejects', () => {
+    assert.throws(
+      () => packMultiSendTransactions([{ ...STEPS[0], operation: OPERATION_DELEGATECALL }]),
+      /only supports CALL steps/
+    );
+  });
+
+  it('refuses truncated packed data', () => {
+    const packed = packMultiSendTransactions(STEPS);
+    assert.throws(() => unpackMultiSendTransactions(packed.slice(0, -2)), /past the end/);
+    assert.throws(() => unpackMultiSendTransactions(packed.slice(0, 2 + 2 * 40)), /Truncated/);
+  });
+
+  it('executes a single step directly and bundles several into one DELEGATECALL', () => {
+    const single = buildSafeAction([{ ...STEPS[0], operation: undefined }]);
+    assert.equal(single.to, STEPS[0].to);
+    assert.equal(single.operation, OPERATION_CALL);
+
+    const bundle = buildSafeAction(STEPS);
+    assert.equal(bundle.operation, OPERATION_DELEGATECALL);
+    assert.equal(bundle.value, '0');
+    assert.deepEqual(decodeMultiSend(bundle.data), STEPS);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RAY,
+  WAD,
+  SECONDS_PER_YEAR,
+  rayMul,
+  rayPow,
+  aprToApy,
+  rayToBasisPoints,
+  aaveSupplyRate,
+  compoundSupplyRate
+} from '../src/rates';
+
+// 5% expressed in each protocol's native format
+const FIVE_PERCENT_RAY = (5n * RAY) / 100n;
+const FIVE_PERCENT_PER_SECOND_WAD = (5n * WAD) / 100n / SECONDS_PER_YEAR;
+
+describe('rates', () => {
+  it('multiplies and raises RAY values', () => {
+    assert.equal(rayMul(2n * RAY, 3n * RAY), 6n * RAY);
+    assert.equal(rayMul(RAY / 2n, RAY / 2n), RAY / 4n);
+    assert.equal(rayPow(2n * RAY, 10n), 1024n * RAY);
+    assert.equal(rayPow(5n * RAY, 0n), RAY);
+  });
+
+  it('converts RAY rates to basis points, rounding down', () => {
+    assert.equal(rayToBasisPoints(FIVE_PERCENT_RAY), 500);
+    assert.equal(rayToBasisPoints(RAY / 10000n - 1n), 0);
+    assert.equal(rayToBasisPoints(0n), 0);
+  });
+
+  it('compounds an APR per second (e^r - 1)', () => {
+    // e^0.05 - 1 = 5.127%, e^0.10 - 1 = 10.517%
+    assert.equal(rayToBasisPoints(aprToApy(FIVE_PERCENT_RAY)), 512);
+    assert.equal(rayToBasisPoints(aprToApy(2n * FIVE_PERCENT_RAY)), 1051);
+    assert.equal(aprToApy(0n), 0n);
+  });
+
+  it('reads an Aave liquidityRate (APR in RAY)', () => {
+    assert.deepEqual(aaveSupplyRate(FIVE_PERCENT_RAY), { apr: 500, apy: 512 });
+    assert.deepEqual(aaveSupplyRate(0n), { apr: 0, apy: 0 });
+  });
+
+  it('reads a Compound supply rate (per second in WAD) on the same scale as Aave', () => {
+    const rate = compoundSupplyRate(FIVE_PERCENT_PER_SECOND_WAD);
+    // Truncating 5% to a whole per-second WAD loses a hair, never a basis point of APY
+    assert.equal(rate.apr, 499);
+    assert.equal(rate.apy, aaveSupplyRate(FIVE_PERCENT_RAY).apy);
+    assert.deepEqual(compoundSupplyRate(0n), { apr: 0, apy: 0 });
+  });
+});
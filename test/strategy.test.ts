@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { StrategyConfig, computeTargetWeights } from '../src/strategy';
+
+const strategy = (overrides: Partial<StrategyConfig>): StrategyConfig => ({
+  strategy: 'best',
+  maxProtocolWeight: 10000,
+  minRebalanceDrift: 100,
+  ...overrides
+});
+
+const RANKINGS = [
+  { protocol: 'aave', apy: 600 },
+  { protocol: 'compound', apy: 400 }
+];
+
+describe('computeTargetWeights', () => {
+  it('best: everything in the top-ranked protocol', () => {
+    assert.deepEqual(computeTargetWeights(RANKINGS, strategy({})), { aave: 10000, compound: 0 });
+  });
+
+  it('capped: fills protocols in APY order up to the cap', () => {
+    const weights = computeTargetWeights(RANKINGS, strategy({ strategy: 'capped', maxProtocolWeight: 7000 }));
+    assert.deepEqual(weights, { aave: 7000, compound: 3000 });
+  });
+
+  it('yield-weighted: splits in proportion to APY', () => {
+    const weights = computeTargetWeights(RANKINGS, strategy({ strategy: 'yield-weighted' }));
+    assert.deepEqual(weights, { aave: 6000, compound: 4000 });
+  });
+
+  it('yield-weighted: redistributes what exceeds the cap', () => {
+    const weights = computeTargetWeights(RANKINGS, strategy({ strategy: 'yield-weighted', maxProtocolWeight: 5500 }));
+    assert.deepEqual(weights, { aave: 5500, compound: 4500 });
+  });
+
+  it('yield-weighted: gives rounding dust to the top-ranked protocol', () => {
+    const weights = computeTargetWeights(
+      [{ protocol: 'a', apy: 300 }, { protocol: 'b', apy: 200 }, { protocol: 'c', apy: 100 }],
+      strategy({ strategy: 'yield-weighted' })
+    );
+    assert.deepEqual(weights, { a: 5001, b: 3333, c: 1666 });
+  });
+
+  it('yield-weighted: splits evenly when no protocol pays', () => {
+    const weights = computeTargetWeights(
+      [{ protocol: 'aave', apy: 0 }, { protocol: 'compound', apy: 0 }],
+      strategy({ strategy: 'yield-weighted' })
+    );
+    assert.deepEqual(weights, { aave: 5000, compound: 5000 });
+  });
+
+  it('refuses a cap too low to allocate the whole portfolio', () => {
+    assert.throws(
+      () => computeTargetWeights(RANKINGS, strategy({ strategy: 'capped', maxProtocolWeight: 4000 })),
+      /cannot allocate the portfolio across 2 protocol/
+    );
+  });
+
+  it('returns no weights without protocols', () => {
+    assert.deepEqual(computeTargetWeights([], strategy({})), {});
+  });
+});